@@ -0,0 +1,13 @@
+-- Waitlist table for the D1 storage adapter (worker/storage/d1.ts).
+-- Apply with: npx wrangler d1 migrations apply bloomed-waitlist
+
+CREATE TABLE IF NOT EXISTS waitlist (
+  id                TEXT PRIMARY KEY,
+  lister_name       TEXT NOT NULL,
+  lister_email      TEXT NOT NULL UNIQUE,
+  lister_university TEXT NOT NULL,
+  lister_level      TEXT NOT NULL,
+  lister_why        TEXT NOT NULL DEFAULT '',
+  lister_beta       INTEGER NOT NULL,
+  created_at        TEXT NOT NULL
+);
@@ -0,0 +1,4 @@
+-- Double opt-in: sign-ups start as 'pending' until the emailed link is clicked.
+
+ALTER TABLE waitlist ADD COLUMN status TEXT NOT NULL DEFAULT 'pending';
+ALTER TABLE waitlist ADD COLUMN confirmed_at TEXT;
@@ -0,0 +1,14 @@
+-- Referral codes: every sign-up gets a share code, and records which code
+-- (if any) brought them in. Confirmed referrals move people up their queue.
+
+ALTER TABLE waitlist ADD COLUMN referral_code TEXT;
+ALTER TABLE waitlist ADD COLUMN referred_by TEXT;
+
+-- Backfill codes for existing rows. hex() gives 0-9A-F; swap 0/1 so the
+-- codes stay within the look-alike-free alphabet new codes use.
+UPDATE waitlist
+   SET referral_code = substr(replace(replace(hex(randomblob(4)), '0', 'Z'), '1', 'Y'), 1, 8)
+ WHERE referral_code IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS waitlist_referral_code ON waitlist (referral_code);
+CREATE INDEX IF NOT EXISTS waitlist_referred_by ON waitlist (referred_by);
@@ -0,0 +1,5 @@
+-- First-touch attribution (utm_* parameters, external referrer, landing
+-- time and the CTA that opened the form), stored as a JSON object.
+-- Query with json_extract(attribution, '$.utm_source') etc.
+
+ALTER TABLE waitlist ADD COLUMN attribution TEXT;
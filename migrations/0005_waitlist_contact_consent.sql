@@ -0,0 +1,6 @@
+-- Consent to contact, given in the LeadForm's consent step: when it was
+-- given and which privacy policy version it referred to.
+-- Rows from before this step existed are left NULL.
+
+ALTER TABLE waitlist ADD COLUMN lister_consent_at TEXT;
+ALTER TABLE waitlist ADD COLUMN lister_policy_version TEXT;
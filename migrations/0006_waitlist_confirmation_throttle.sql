@@ -0,0 +1,4 @@
+-- When the last confirmation email was sent, so re-submitting a pending
+-- address can't be used to send it over and over (see worker/waitlist.ts).
+
+ALTER TABLE waitlist ADD COLUMN confirmation_sent_at TEXT;
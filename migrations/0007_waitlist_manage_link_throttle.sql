@@ -0,0 +1,5 @@
+-- When the last manage-link email was sent, so the public manage-link
+-- endpoint can't be used to send an address email after email
+-- (see worker/waitlist.ts).
+
+ALTER TABLE waitlist ADD COLUMN manage_link_sent_at TEXT;
@@ -0,0 +1,138 @@
+/**
+ * Builds every favicon and app icon from public/favicon.png, writes the web
+ * manifest and updates the icon <link> tags in index.html.
+ * Run: npm run icons — then commit what changed in public/ and index.html.
+ *
+ *   public/favicon.png                   the source (left as is); its white background is dropped
+ *   public/icons/favicon-{16,32}.png     browser tabs
+ *   public/icons/apple-touch-icon.png    180×180 on the theme colour (iOS turns transparency black)
+ *   public/icons/icon-{192,512}.png      manifest icons
+ *   public/icons/icon-maskable-512.png   logo inside the maskable safe zone, on the theme colour
+ *   public/manifest.webmanifest          name, colours and the icons above
+ *
+ * There is no favicon.svg: the logo is a raster image, and an SVG wrapping it
+ * would be larger than these PNGs without scaling any better.
+ *
+ * The theme colour is read from <meta name="theme-color"> in index.html, so
+ * that stays the one place to change it.
+ */
+import sharp from 'sharp';
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = join(__dirname, '..');
+const publicDir = join(root, 'public');
+const iconsDir = join(publicDir, 'icons');
+const source = join(publicDir, 'favicon.png');
+const indexHtml = join(root, 'index.html');
+
+const APP_NAME = 'Bloomed';
+// Maskable icons may be cropped to a circle of 80% of their width
+const MASKABLE_SAFE_ZONE = 0.8;
+
+// ── Source: transparent background ──
+
+// Treat pixels as white if R, G, B are all >= 250
+const WHITE_THRESHOLD = 250;
+
+/**
+ * Make white (and near-white) pixels transparent — only those connected to
+ * the edge, so the white flower inside the logo stays.
+ */
+async function clearBackground(file) {
+  const { data, info } = await sharp(file).raw().ensureAlpha().toBuffer({ resolveWithObject: true });
+  const { width, height, channels } = info;
+  const isWhite = p => data[p] >= WHITE_THRESHOLD && data[p + 1] >= WHITE_THRESHOLD && data[p + 2] >= WHITE_THRESHOLD;
+
+  const stack = [];
+  for (let x = 0; x < width; x++) stack.push([x, 0], [x, height - 1]);
+  for (let y = 0; y < height; y++) stack.push([0, y], [width - 1, y]);
+  const seen = new Uint8Array(width * height);
+
+  while (stack.length > 0) {
+    const [x, y] = stack.pop();
+    if (x < 0 || y < 0 || x >= width || y >= height || seen[y * width + x]) continue;
+    seen[y * width + x] = 1;
+    const p = (y * width + x) * channels;
+    if (data[p + 3] !== 0 && !isWhite(p)) continue;
+    data[p + 3] = 0;
+    stack.push([x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]);
+  }
+
+  return sharp(data, { raw: { width, height, channels } }).png().toBuffer();
+}
+
+// ── PNG icons ──
+
+function themeColour() {
+  const match = /<meta name="theme-color" content="(#[0-9a-fA-F]{6})"/.exec(readFileSync(indexHtml, 'utf8'));
+  if (!match) throw new Error('index.html has no <meta name="theme-color" content="#rrggbb">');
+  return match[1];
+}
+
+async function writePng(logo, file, size, { background, scale = 1 } = {}) {
+  const inner = Math.round(size * scale);
+  const resized = await sharp(logo).resize(inner, inner, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } }).toBuffer();
+  const canvas = sharp({
+    create: { width: size, height: size, channels: 4, background: background ?? { r: 0, g: 0, b: 0, alpha: 0 } },
+  });
+  await canvas.composite([{ input: resized, gravity: 'centre' }]).png().toFile(join(iconsDir, file));
+}
+
+// ── Manifest + <link> tags ──
+
+function manifest(theme) {
+  const icon = (file, size, purpose) => ({ src: `/icons/${file}`, sizes: `${size}x${size}`, type: 'image/png', ...(purpose && { purpose }) });
+  return {
+    name: APP_NAME,
+    short_name: APP_NAME,
+    start_url: '/',
+    scope: '/',
+    display: 'minimal-ui',
+    background_color: theme,
+    theme_color: theme,
+    icons: [
+      icon('icon-192.png', 192),
+      icon('icon-512.png', 512),
+      icon('icon-maskable-512.png', 512, 'maskable'),
+    ],
+  };
+}
+
+const LINK_TAGS = [
+  '<link rel="icon" href="/icons/favicon-32.png" sizes="32x32" type="image/png" />',
+  '<link rel="icon" href="/icons/favicon-16.png" sizes="16x16" type="image/png" />',
+  '<link rel="apple-touch-icon" href="/icons/apple-touch-icon.png" />',
+  '<link rel="manifest" href="/manifest.webmanifest" />',
+];
+
+function injectLinks() {
+  const html = readFileSync(indexHtml, 'utf8');
+  const block = /( *)<!-- icons -->[\s\S]*?<!-- \/icons -->/;
+  const match = block.exec(html);
+  if (!match) throw new Error('index.html needs an <!-- icons --> … <!-- /icons --> block');
+  const indent = match[1];
+  const tags = [`${indent}<!-- icons -->`, ...LINK_TAGS.map(tag => indent + tag), `${indent}<!-- /icons -->`].join('\n');
+  writeFileSync(indexHtml, html.replace(block, () => tags));
+}
+
+// ── Run ──
+
+const logo = await clearBackground(source);
+
+const theme = themeColour();
+mkdirSync(iconsDir, { recursive: true });
+
+await writePng(logo, 'favicon-16.png', 16);
+await writePng(logo, 'favicon-32.png', 32);
+await writePng(logo, 'apple-touch-icon.png', 180, { background: theme, scale: 0.8 });
+await writePng(logo, 'icon-192.png', 192);
+await writePng(logo, 'icon-512.png', 512);
+await writePng(logo, 'icon-maskable-512.png', 512, { background: theme, scale: MASKABLE_SAFE_ZONE * 0.85 });
+
+writeFileSync(join(publicDir, 'manifest.webmanifest'), `${JSON.stringify(manifest(theme), null, 2)}\n`);
+injectLinks();
+
+console.log('Icons and manifest.webmanifest written; index.html links updated');
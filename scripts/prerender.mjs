@@ -0,0 +1,67 @@
+/**
+ * Prerenders every route into static HTML, after the client and SSR builds.
+ * Run: npm run build
+ *
+ * Each path from PRERENDER_PATHS (src/entry-server.tsx) is rendered into the
+ * #root of the built index.html, its useHead() tags replace the <!--app-head-->
+ * placeholder, and the page is written where the asset server finds it
+ * without a trailing slash: / → index.html, /privacy → privacy.html,
+ * /u/monash → u/monash.html. Everything else gets 404.html.
+ *
+ * Pages also get their own Open Graph image (src/components/OgImage.tsx),
+ * rendered to SVG and rasterised with sharp to the path their og:image
+ * names, e.g. dist/og/u/monash.png.
+ */
+import sharp from 'sharp';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { dirname, join } from 'path';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const root = join(__dirname, '..');
+const dist = join(root, 'dist');
+const serverDir = join(root, 'dist-ssr');
+
+const ROOT_ELEMENT = '<div id="root"></div>';
+const HEAD_PLACEHOLDER = '<!--app-head-->';
+
+const template = readFileSync(join(dist, 'index.html'), 'utf8');
+for (const marker of [ROOT_ELEMENT, HEAD_PLACEHOLDER]) {
+  if (!template.includes(marker)) throw new Error(`dist/index.html is missing ${marker}`);
+}
+
+const { render, renderOgImage, PRERENDER_PATHS } = await import(pathToFileURL(join(serverDir, 'entry-server.js')).href);
+
+// The rasteriser won't fetch URLs, so the logo goes in as a data: URL
+const logoHref = `data:image/png;base64,${readFileSync(join(dist, 'logo.png')).toString('base64')}`;
+
+function outputFile(path) {
+  return path === '/' ? 'index.html' : `${path.slice(1)}.html`;
+}
+
+async function prerender(url, file) {
+  const page = await render(url);
+  // Functions as replacements, so `$` in the content is never read as a pattern
+  const html = template
+    .replace(HEAD_PLACEHOLDER, () => page.head)
+    .replace(ROOT_ELEMENT, () => `<div id="root">${page.html}</div>`);
+  const target = join(dist, file);
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileSync(target, html);
+  console.log(`prerendered ${url} → dist/${file}`);
+
+  if (page.ogImage) await writeOgImage(page.ogImage);
+}
+
+async function writeOgImage(spec) {
+  const target = join(dist, spec.path);
+  mkdirSync(dirname(target), { recursive: true });
+  await sharp(Buffer.from(renderOgImage(spec, logoHref))).png().toFile(target);
+  console.log(`  og:image → dist${spec.path}`);
+}
+
+for (const path of PRERENDER_PATHS) await prerender(path, outputFile(path));
+// Any path without a route renders NotFoundPage
+await prerender('/404', '404.html');
+
+rmSync(serverDir, { recursive: true, force: true });
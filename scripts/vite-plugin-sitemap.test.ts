@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { deployEnv } from './vite-plugin-sitemap';
+
+describe('deployEnv', () => {
+  it('treats local builds and the main branch as production', () => {
+    expect(deployEnv({})).toBe('production');
+    expect(deployEnv({ WORKERS_CI_BRANCH: 'main' })).toBe('production');
+  });
+
+  it('treats any other Workers Builds branch as a preview', () => {
+    expect(deployEnv({ WORKERS_CI_BRANCH: 'feature/new-hero' })).toBe('preview');
+  });
+
+  it('lets DEPLOY_ENV override the branch either way', () => {
+    expect(deployEnv({ DEPLOY_ENV: 'preview', WORKERS_CI_BRANCH: 'main' })).toBe('preview');
+    expect(deployEnv({ DEPLOY_ENV: 'production', WORKERS_CI_BRANCH: 'staging' })).toBe('production');
+  });
+
+  it('rejects an unknown DEPLOY_ENV rather than guessing', () => {
+    expect(() => deployEnv({ DEPLOY_ENV: 'prod' })).toThrow("DEPLOY_ENV must be 'production' or 'preview', not 'prod'");
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Emits sitemap.xml and robots.txt (plus a _headers file on previews) with
+ * the client build.
+ *
+ * URLs come from the route table: routePaths(ROUTES) from src/routes.ts,
+ * minus routes with `sitemap: false`. A URL's <lastmod> is the date of the
+ * last commit touching its page module or anything that module imports, so
+ * editing the FAQ or a school's details bumps exactly the pages that show
+ * them. Uncommitted changes count as today.
+ *
+ * Only production builds are indexable. Anything else — a Workers Builds
+ * preview branch, or DEPLOY_ENV=preview — gets a robots.txt that disallows
+ * crawling and an `X-Robots-Tag: noindex` header on every asset.
+ */
+
+import { execFileSync } from 'child_process';
+import { createServer } from 'vite';
+import type { ModuleNode, Plugin, ViteDevServer } from 'vite';
+import type { RouteDef } from '../src/lib/router';
+
+type DeployEnv = 'production' | 'preview';
+
+/**
+ * DEPLOY_ENV wins when set. Otherwise Cloudflare Workers Builds tells us the
+ * branch (WORKERS_CI_BRANCH): only `main` is production. Local builds are
+ * production, so `npm run build && npx wrangler deploy` keeps working.
+ */
+export function deployEnv(env: NodeJS.ProcessEnv = process.env): DeployEnv {
+  if (env.DEPLOY_ENV === 'production' || env.DEPLOY_ENV === 'preview') return env.DEPLOY_ENV;
+  if (env.DEPLOY_ENV) throw new Error(`DEPLOY_ENV must be 'production' or 'preview', not '${env.DEPLOY_ENV}'`);
+  const branch = env.WORKERS_CI_BRANCH;
+  return !branch || branch === 'main' ? 'production' : 'preview';
+}
+
+interface SitemapUrl {
+  loc: string;
+  lastmod: string;
+  priority: number;
+}
+
+const DEFAULT_PRIORITY = 0.5;
+
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** YYYY-MM-DD of the newest commit touching `files`, or today if they have local changes */
+function lastModified(root: string, files: string[]): string {
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: root, encoding: 'utf8' }).trim();
+  try {
+    if (git('status', '--porcelain', '--', ...files)) return today();
+    return git('log', '-1', '--format=%cs', '--', ...files) || today();
+  } catch {
+    // Not a git checkout (e.g. a source archive)
+    return today();
+  }
+}
+
+/** `mod` and everything it imports, limited to the app's own source files */
+function sourceFiles(root: string, mod: ModuleNode, seen = new Set<string>()): Set<string> {
+  if (!mod.file || seen.has(mod.file) || !mod.file.startsWith(`${root}/src/`)) return seen;
+  seen.add(mod.file);
+  for (const imported of mod.importedModules) sourceFiles(root, imported, seen);
+  return seen;
+}
+
+/**
+ * Load each route's page in a throwaway SSR server and collect the files it
+ * renders from. Pages are dynamic imports of routes.ts, so the page module
+ * is whichever of those imports the route's preload() evaluated.
+ */
+async function collectUrls(server: ViteDevServer, root: string, siteUrl: string): Promise<SitemapUrl[]> {
+  const { ROUTES } = await server.ssrLoadModule('/src/routes.ts') as { ROUTES: readonly RouteDef<unknown>[] };
+  const { routePaths } = await server.ssrLoadModule('/src/lib/router.tsx') as typeof import('../src/lib/router');
+  const routesModule = await server.moduleGraph.getModuleByUrl('/src/routes.ts');
+  if (!routesModule) throw new Error('src/routes.ts is not in the module graph');
+
+  const pageImports = () => [...routesModule.importedModules].filter(mod => mod.file?.includes('/src/pages/'));
+  const urls: SitemapUrl[] = [];
+
+  for (const route of ROUTES) {
+    if (route.sitemap === false) continue;
+
+    const pending = new Set(pageImports().filter(mod => !mod.ssrModule));
+    await route.page.preload();
+    const page = [...pending].find(mod => mod.ssrModule);
+    if (!page) throw new Error(`Couldn't find the page module for ${route.path}`);
+
+    const lastmod = lastModified(root, [...sourceFiles(root, page)]);
+    for (const path of routePaths([route])) {
+      urls.push({ loc: new URL(path, siteUrl).href, lastmod, priority: route.sitemap?.priority ?? DEFAULT_PRIORITY });
+    }
+  }
+
+  return urls;
+}
+
+function sitemapXml(urls: SitemapUrl[]): string {
+  const entries = urls.map(url => [
+    '  <url>',
+    `    <loc>${url.loc}</loc>`,
+    `    <lastmod>${url.lastmod}</lastmod>`,
+    `    <priority>${url.priority.toFixed(1)}</priority>`,
+    '  </url>',
+  ].join('\n'));
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...entries,
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+function robotsTxt(env: DeployEnv, siteUrl: string): string {
+  if (env === 'preview') return 'User-agent: *\nDisallow: /\n';
+  return `User-agent: *\nAllow: /\n\nSitemap: ${new URL('/sitemap.xml', siteUrl).href}\n`;
+}
+
+export default function sitemap(): Plugin {
+  let root = '';
+  let isSsrBuild = false;
+
+  return {
+    name: 'bloomed:sitemap',
+    apply: 'build',
+
+    configResolved(config) {
+      root = config.root;
+      isSsrBuild = Boolean(config.build.ssr);
+    },
+
+    async generateBundle() {
+      if (isSsrBuild) return;
+      const env = deployEnv();
+
+      const server = await createServer({
+        root,
+        configFile: false,
+        logLevel: 'error',
+        appType: 'custom',
+        server: { middlewareMode: true, hmr: false },
+      });
+
+      try {
+        const { SITE_URL } = await server.ssrLoadModule('/src/lib/site.ts') as typeof import('../src/lib/site');
+        const urls = await collectUrls(server, root, SITE_URL);
+
+        this.emitFile({ type: 'asset', fileName: 'sitemap.xml', source: sitemapXml(urls) });
+        this.emitFile({ type: 'asset', fileName: 'robots.txt', source: robotsTxt(env, SITE_URL) });
+        if (env === 'preview') {
+          // Cloudflare static assets apply _headers to every matching response
+          this.emitFile({ type: 'asset', fileName: '_headers', source: '/*\n  X-Robots-Tag: noindex\n' });
+        }
+      } finally {
+        await server.close();
+      }
+    },
+  };
+}
@@ -1,32 +1,81 @@
-import { useState } from 'react';
-import { gsap } from 'gsap';
-import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { useState, useEffect } from 'react';
 
 import Nav from './components/Nav';
-import Hero from './components/Hero';
-import PainPoints from './components/PainPoints';
-import NarrativeSection from './components/NarrativeSection';
-import CtaSection from './components/CtaSection';
-import FaqSection from './components/FaqSection';
 import Footer from './components/Footer';
 import LeadForm from './components/LeadForm';
+import ConsentBanner from './components/ConsentBanner';
+import { matchPath, RouterProvider, Routes, useLocation } from './lib/router';
+import { NOT_FOUND_PAGE, ROUTES } from './routes';
+import { startWaitlistQueue } from './lib/waitlistQueue';
+import { captureReferral } from './lib/referral';
+import { captureAttribution, recordCta } from './lib/attribution';
+import { onConsentChange } from './lib/consent';
+import { startAnalytics, track } from './lib/analytics';
+import type { CtaSource } from './lib/waitlist';
+import { endHydration } from './lib/hydration';
+import { ThemeProvider } from './lib/theme';
+import { findSchoolBySlug } from './data/medSchools';
 
-// Register GSAP plugins once at the app root
-gsap.registerPlugin(ScrollTrigger);
+interface Props {
+  /** Set by the prerender (entry-server.tsx); the browser reads window.location */
+  url?: string;
+}
+
+export default function App({ url }: Props) {
+  return (
+    <ThemeProvider>
+      <RouterProvider url={url}>
+        <AppShell />
+      </RouterProvider>
+    </ThemeProvider>
+  );
+}
 
-export default function App() {
+/**
+ * Nav, the current route's page, Footer, and the overlays (LeadForm,
+ * ConsentBanner) that every page shares. Pages live in routes.ts.
+ */
+function AppShell() {
+  const { pathname } = useLocation();
   const [formOpen, setFormOpen] = useState(false);
+  const [privacySettingsOpen, setPrivacySettingsOpen] = useState(false);
+
+  useEffect(() => endHydration(), []);
+
+  // Retry any sign-ups that were queued while offline
+  useEffect(() => startWaitlistQueue(), []);
+
+  useEffect(() => startAnalytics(), []);
+
+  // Remember who shared the link and how this visit arrived, for the sign-up payload.
+  // Attribution waits for consent, so capture again whenever that changes.
+  useEffect(() => {
+    captureReferral();
+    captureAttribution();
+    return onConsentChange(captureAttribution);
+  }, []);
+
+  // On a school's page, every CTA (Nav included) opens the form with that school picked
+  const slug = matchPath('/u/:slug', pathname)?.slug;
+  const school = slug ? findSchoolBySlug(slug) : null;
+
+  const openForm = (source: CtaSource) => {
+    recordCta(source);
+    track('cta_clicked', { source });
+    setFormOpen(true);
+  };
 
   return (
     <div className="min-h-screen">
-      <Nav onOpenForm={() => setFormOpen(true)} />
-      <Hero onOpenForm={() => setFormOpen(true)} />
-      <PainPoints />
-      <NarrativeSection />
-      <CtaSection onOpenForm={() => setFormOpen(true)} />
-      <FaqSection />
-      <Footer />
-      <LeadForm isOpen={formOpen} onClose={() => setFormOpen(false)} />
+      <Nav onOpenForm={() => openForm('nav')} />
+      <Routes routes={ROUTES} notFound={NOT_FOUND_PAGE} pageProps={{ onOpenForm: openForm }} />
+      <Footer onOpenPrivacySettings={() => setPrivacySettingsOpen(true)} />
+      <LeadForm
+        isOpen={formOpen}
+        onClose={() => setFormOpen(false)}
+        defaults={school ? { university: school.name } : undefined}
+      />
+      <ConsentBanner forceOpen={privacySettingsOpen} onClose={() => setPrivacySettingsOpen(false)} />
     </div>
   );
 }
@@ -0,0 +1,154 @@
+/**
+ * bloomInteraction.ts
+ *
+ * What HeroBloom and CtaAustraliaBloom share once their intros are done:
+ *  - showSettled(): every node and edge at rest, as the intro leaves it
+ *    (also the reduced-motion state)
+ *  - followPointerProximity(): nodes near the pointer swell and brighten.
+ *    It follows a mouse or pen, or the first finger down; a touch pointer
+ *    ends when the finger lifts or the page starts scrolling.
+ *
+ * Both blooms draw each node as `#<id>-g` (group) holding `#<id>-dot` and
+ * `#<id>-ring`, and each edge as `#<id>`.
+ */
+
+import { gsap } from 'gsap';
+
+export interface BloomNode {
+  id: string;
+  tx: number;
+  ty: number;
+}
+
+export interface SettledNode {
+  dotR: number;
+  dotOpacity: number;
+  ringR: number;
+  ringOpacity: number;
+}
+
+export interface BloomLayout {
+  nodes: BloomNode[];
+  edges: { id: string }[];
+  settledNodes: Map<string, SettledNode>;
+  settledEdgeOpacity: Map<string, number>;
+}
+
+/** Put every node and edge where the intro leaves it, undoing any swell */
+export function showSettled({ nodes, edges, settledNodes, settledEdgeOpacity }: BloomLayout): void {
+  nodes.forEach(n => {
+    const settled = settledNodes.get(n.id)!;
+    gsap.set(`#${n.id}-dot`,  { attr: { r: settled.dotR },  opacity: settled.dotOpacity });
+    gsap.set(`#${n.id}-ring`, { attr: { r: settled.ringR }, opacity: settled.ringOpacity });
+    gsap.set(`#${n.id}-g`, { clearProps: 'transform,filter' });
+  });
+  edges.forEach(e => gsap.set(`#${e.id}`, { opacity: settledEdgeOpacity.get(e.id) }));
+}
+
+// ── Proximity swell ──
+
+export interface ProximityOptions {
+  /** How far (px) outside the SVG the pointer still counts as near */
+  margin: number;
+  /** Distance (viewBox units) at which a node stops reacting */
+  radius: number;
+  /** Scale and brightness right under the pointer */
+  scale: number;
+  brightness: number;
+  /** Checked on every move — false until the intro has played */
+  isActive: () => boolean;
+}
+
+/** Listen for pointers on the document; returns a function removing the listeners */
+export function followPointerProximity(
+  getSvg: () => SVGSVGElement | null,
+  nodes: BloomNode[],
+  { margin, radius, scale, brightness, isActive }: ProximityOptions,
+): () => void {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  let hovered = new Set<string>();
+  let rafPending = false;
+  let touchId: number | null = null;
+
+  const release = (id: string) => {
+    const n = byId.get(id)!;
+    gsap.to(`#${id}-g`, {
+      scale: 1, filter: 'brightness(1)',
+      svgOrigin: `${n.tx} ${n.ty}`,
+      duration: 0.4, overwrite: true,
+    });
+  };
+
+  const clear = () => {
+    hovered.forEach(release);
+    hovered.clear();
+  };
+
+  const isFollowed = (e: PointerEvent) => e.pointerType !== 'touch' || e.pointerId === touchId;
+
+  const swellAt = (svg: SVGSVGElement, e: PointerEvent) => {
+    const rect = svg.getBoundingClientRect();
+    if (
+      e.clientX < rect.left - margin || e.clientX > rect.right + margin ||
+      e.clientY < rect.top - margin || e.clientY > rect.bottom + margin
+    ) {
+      clear();
+      return;
+    }
+
+    const ctm = svg.getScreenCTM();
+    if (!ctm) return;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const svgPt = pt.matrixTransform(ctm.inverse());
+
+    const next = new Set<string>();
+    for (const n of nodes) {
+      const factor = Math.max(0, 1 - Math.hypot(n.tx - svgPt.x, n.ty - svgPt.y) / radius);
+      if (factor === 0) continue;
+      next.add(n.id);
+      gsap.to(`#${n.id}-g`, {
+        scale: 1 + factor * (scale - 1),
+        filter: `brightness(${1 + factor * (brightness - 1)})`,
+        svgOrigin: `${n.tx} ${n.ty}`,
+        duration: 0.2, overwrite: true,
+      });
+    }
+
+    hovered.forEach(id => { if (!next.has(id)) release(id); });
+    hovered = next;
+  };
+
+  const onPointerMove = (e: PointerEvent) => {
+    if (!isActive() || !getSvg() || rafPending || !isFollowed(e)) return;
+    rafPending = true;
+
+    requestAnimationFrame(() => {
+      rafPending = false;
+      const svg = getSvg();
+      if (svg && isFollowed(e)) swellAt(svg, e);
+    });
+  };
+
+  const onPointerDown = (e: PointerEvent) => {
+    if (e.pointerType !== 'touch' || touchId !== null) return;
+    touchId = e.pointerId;
+    onPointerMove(e);
+  };
+
+  const onPointerEnd = (e: PointerEvent) => {
+    if (e.pointerId !== touchId) return;
+    touchId = null;
+    clear();
+  };
+
+  const listeners = new AbortController();
+  const { signal } = listeners;
+  document.addEventListener('pointermove', onPointerMove, { signal });
+  document.addEventListener('pointerdown', onPointerDown, { signal });
+  document.addEventListener('pointerup', onPointerEnd, { signal });
+  document.addEventListener('pointercancel', onPointerEnd, { signal });
+
+  return () => listeners.abort();
+}
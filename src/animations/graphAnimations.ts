@@ -8,33 +8,44 @@
  *  - Learning:   unknown nodes appear, edges form as dotted orange lines
  *  - Solidify:   green wave, all edges become solid, full graph alive
  *
+ * Every phase takes the Graph to animate (data/graphData.ts) and works out
+ * from its scenario which nodes and edges are known, so any number of
+ * topics, categories and connections works.
+ *
  * D3 integration:
  *  - getNodePos() reads live DOM attributes so animations stay correct
  *    after nodes have been dragged.
+ *
+ * Colours come from readPalette() when a phase starts, so a phase built
+ * after a theme change uses the new theme (see KnowledgeGraph).
+ *
+ * Reduced motion (lib/motion.ts): each phase jumps to its end state and the
+ * looping tweens (breathing, scan pulse, learning glow) never start.
  */
 
 import { gsap } from 'gsap';
-import {
-  GRAPH_NODES,
-  GRAPH_EDGES,
-  KNOWN_NODE_IDS,
-  classifyEdge,
-} from '../data/graphData';
-
-const CATEGORY_COLORS: Record<string, string> = {
-  foundational: '#6366f1',
-  pathological: '#8b5cf6',
-  clinical:     '#3b82f6',
-  specialty:    '#06b6d4',
-};
-
-const LEARNING_COLOR = '#f97316'; // warm orange for forming connections
-
-/** Read a space-separated RGB value from a CSS custom property, e.g. "44 42 38".
- *  Reads from a graph edge element so local CSS overrides (e.g. dark pill) are respected. */
+import type { Graph, GraphNode } from '../data/graphTypes';
+import { categoryOf } from '../lib/graphSchema';
+import { prefersReducedMotion } from '../lib/motion';
+import { readPalette } from '../lib/palette';
+import type { Palette } from '../lib/palette';
+
+/** Read from a graph node element so local CSS overrides (e.g. dark pill) are respected */
+function themeElement(): Element {
+  return document.querySelector('.graph-node') ?? document.documentElement;
+}
+
+/** Read a space-separated RGB value from a CSS custom property, e.g. "44 42 38" */
 function getThemeRgb(varName: string): string {
-  const el = document.getElementById(`edge-${GRAPH_EDGES[0]?.id}`) ?? document.documentElement;
-  return getComputedStyle(el).getPropertyValue(varName).trim();
+  return getComputedStyle(themeElement()).getPropertyValue(varName).trim();
+}
+
+function getPalette(): Palette {
+  return readPalette(themeElement());
+}
+
+function nodeColour(palette: Palette, graph: Graph, node: GraphNode): string {
+  return palette.categories[categoryOf(graph, node).colour];
 }
 
 /** Build an rgba() string from space-separated RGB + optional alpha */
@@ -49,41 +60,59 @@ let _breathing: gsap.core.Tween | null = null;
 let _scanPulse: gsap.core.Timeline | null = null;
 let _learningGlow: gsap.core.Tween | null = null;
 
+/** Schedule a looping tween at `position`, unless motion is reduced */
+function startLoop(tl: gsap.core.Timeline, start: () => void, position: number): void {
+  tl.call(() => { if (!prefersReducedMotion()) start(); }, [], position);
+}
+
+/** With reduced motion, skip straight to the phase's end state */
+function finish(tl: gsap.core.Timeline): gsap.core.Timeline {
+  if (prefersReducedMotion()) tl.progress(1);
+  return tl;
+}
+
 function killAll() {
   _breathing?.kill();    _breathing    = null;
   _scanPulse?.kill();    _scanPulse    = null;
   _learningGlow?.kill(); _learningGlow = null;
 }
 
-function getNodePos(nodeId: string): { x: number; y: number } {
+function getNodePos(graph: Graph, nodeId: string): { x: number; y: number } {
   const el = document.getElementById(`node-${nodeId}`);
   if (el) {
     const t = el.getAttribute('transform') ?? '';
     const m = t.match(/translate\(\s*([\d.+-]+)[,\s]\s*([\d.+-]+)\s*\)/);
     if (m) return { x: parseFloat(m[1]), y: parseFloat(m[2]) };
   }
-  const node = GRAPH_NODES.find(n => n.id === nodeId);
+  const node = graph.nodes.find(n => n.id === nodeId);
   return { x: node?.x ?? 0, y: node?.y ?? 0 };
 }
 
-// Partition nodes: known (scattered) vs unknown (gaps to fill)
-const knownNodes   = GRAPH_NODES.filter(n => KNOWN_NODE_IDS.has(n.id));
-const unknownNodes = GRAPH_NODES.filter(n => !KNOWN_NODE_IDS.has(n.id));
-
-// Partition edges: known (both endpoints known) vs learning (at least one unknown)
-const knownEdges    = GRAPH_EDGES.filter(e => classifyEdge(e) === 'known');
-const learningEdges = GRAPH_EDGES.filter(e => classifyEdge(e) === 'learning');
+/**
+ * Nodes: known (scattered) vs unknown (gaps to fill).
+ * Edges: known (both endpoints known) vs learning (at least one unknown).
+ */
+function partition(graph: Graph) {
+  const isKnown = (nodeId: string) => graph.known.has(nodeId);
+  return {
+    knownNodes:    graph.nodes.filter(n => isKnown(n.id)),
+    unknownNodes:  graph.nodes.filter(n => !isKnown(n.id)),
+    knownEdges:    graph.edges.filter(e => isKnown(e.source) && isKnown(e.target)),
+    learningEdges: graph.edges.filter(e => !isKnown(e.source) || !isKnown(e.target)),
+  };
+}
 
 // ── AMBIENT - resting state with continuous gentle breathing ─────────────────
 
-export function toAmbient(): gsap.core.Timeline {
+export function toAmbient(graph: Graph): gsap.core.Timeline {
   killAll();
   const tl = gsap.timeline();
 
+  const palette = getPalette();
   const primaryRgb = getThemeRgb('--color-primary-rgb');
   const edgeColor = rgba(primaryRgb, 0.15);
 
-  GRAPH_EDGES.forEach(edge => {
+  graph.edges.forEach(edge => {
     tl.set(`#edge-${edge.id}`, {
       attr: {
         stroke: edgeColor,
@@ -94,16 +123,16 @@ export function toAmbient(): gsap.core.Timeline {
     }, 0);
   });
 
-  GRAPH_NODES.forEach(node => {
-    const color = CATEGORY_COLORS[node.category];
+  graph.nodes.forEach(node => {
+    const color = nodeColour(palette, graph, node);
     tl.to(`#node-${node.id}`,      { opacity: 1,                                 duration: 0.5, ease: 'power2.out' }, 0);
     tl.to(`#node-${node.id}-dot`,  { attr: { fill: color, r: 7 },               duration: 0.5, ease: 'power2.out' }, 0);
     tl.to(`#node-${node.id}-ring`, { attr: { r: 13, stroke: color }, opacity: 0.12, duration: 0.5 }, 0);
   });
 
-  tl.call(() => {
+  startLoop(tl, () => {
     _breathing = gsap.to(
-      GRAPH_NODES.map(n => `#node-${n.id}-ring`),
+      graph.nodes.map(n => `#node-${n.id}-ring`),
       {
         attr: { r: 18 },
         opacity: 0.28,
@@ -114,24 +143,26 @@ export function toAmbient(): gsap.core.Timeline {
         stagger: { each: 0.22, from: 'random' },
       }
     );
-  }, [], 0.5);
+  }, 0.5);
 
-  return tl;
+  return finish(tl);
 }
 
 // ── DIAGNOSTIC - "Bloomed maps where you are" ───────────────────────────────
 //  Disparate known nodes light up bright, everything else dims down.
 //  Shows fragmented knowledge - you know some things but they're scattered.
 
-export function toDiagnostic(): gsap.core.Timeline {
+export function toDiagnostic(graph: Graph): gsap.core.Timeline {
   killAll();
   const tl = gsap.timeline();
+  const { knownNodes, unknownNodes, knownEdges, learningEdges } = partition(graph);
 
+  const palette = getPalette();
   const primaryRgb = getThemeRgb('--color-primary-rgb');
 
   // Known nodes pop up bright with their category color, staggered
   knownNodes.forEach((node, i) => {
-    const color = CATEGORY_COLORS[node.category];
+    const color = nodeColour(palette, graph, node);
     const delay = i * 0.12;
     tl.to(`#node-${node.id}`, { opacity: 1, duration: 0.5 }, delay);
     tl.to(`#node-${node.id}-dot`, {
@@ -153,7 +184,7 @@ export function toDiagnostic(): gsap.core.Timeline {
     tl.to(`#node-${node.id}-ring`, { opacity: 0.02, duration: 0.4 }, 0);
   });
 
-  // Known edges (anatomy-physiology is the only one) visible
+  // Known edges visible
   knownEdges.forEach(edge => {
     tl.to(`#edge-${edge.id}`, {
       attr: { stroke: rgba(primaryRgb, 0.2), 'stroke-width': 1.5 },
@@ -170,10 +201,10 @@ export function toDiagnostic(): gsap.core.Timeline {
   });
 
   // Scanning pulse: known nodes get a sequential ring flare (one after another)
-  tl.call(() => {
+  startLoop(tl, () => {
     const scanTl = gsap.timeline({ repeat: -1 });
     knownNodes.forEach((node, i) => {
-      const color = CATEGORY_COLORS[node.category];
+      const color = nodeColour(palette, graph, node);
       scanTl.to(`#node-${node.id}-ring`, {
         attr: { r: 26 },
         opacity: 0.55,
@@ -188,24 +219,26 @@ export function toDiagnostic(): gsap.core.Timeline {
       }, i * 0.55 + 0.4);
     });
     _scanPulse = scanTl;
-  }, [], 0.7);
+  }, 0.7);
 
-  return tl;
+  return finish(tl);
 }
 
 // ── LEARNING - "Connections are forming" ─────────────────────────────────────
 //  Known nodes stay visible. Unknown nodes appear. Learning edges form as
 //  dotted orange lines to show knowledge actively being built.
 
-export function toLearning(): gsap.core.Timeline {
+export function toLearning(graph: Graph): gsap.core.Timeline {
   killAll();
   const tl = gsap.timeline();
+  const { knownNodes, unknownNodes, knownEdges, learningEdges } = partition(graph);
 
+  const palette = getPalette();
   const primaryRgb = getThemeRgb('--color-primary-rgb');
 
   // Known nodes stay visible but step back slightly
   knownNodes.forEach(node => {
-    const color = CATEGORY_COLORS[node.category];
+    const color = nodeColour(palette, graph, node);
     tl.to(`#node-${node.id}`, { opacity: 0.75, duration: 0.45 }, 0);
     tl.to(`#node-${node.id}-dot`, {
       attr: { fill: color, r: 7 },
@@ -231,7 +264,7 @@ export function toLearning(): gsap.core.Timeline {
     const delay = 0.2 + i * 0.08;
     tl.to(`#node-${node.id}`, { opacity: 1, duration: 0.35 }, delay);
     tl.to(`#node-${node.id}-dot`, {
-      attr: { fill: LEARNING_COLOR, r: 10 },
+      attr: { fill: palette.learning, r: 10 },
       duration: 0.4,
       ease: 'back.out(2)',
     }, delay);
@@ -241,7 +274,7 @@ export function toLearning(): gsap.core.Timeline {
       ease: 'power2.inOut',
     }, delay + 0.4);
     tl.to(`#node-${node.id}-ring`, {
-      attr: { r: 15, stroke: LEARNING_COLOR },
+      attr: { r: 15, stroke: palette.learning },
       opacity: 0.3,
       duration: 0.4,
       ease: 'power2.out',
@@ -255,14 +288,14 @@ export function toLearning(): gsap.core.Timeline {
       attr: { 'stroke-dasharray': '6 5' },
     }, delay);
     tl.to(`#edge-${edge.id}`, {
-      attr: { stroke: LEARNING_COLOR, 'stroke-width': 1.8 },
+      attr: { stroke: palette.learning, 'stroke-width': 1.8 },
       opacity: 0.55,
       duration: 0.5,
     }, delay);
   });
 
   // Breathing glow on the learning (unknown) nodes
-  tl.call(() => {
+  startLoop(tl, () => {
     _learningGlow = gsap.to(
       unknownNodes.map(n => `#node-${n.id}-ring`),
       {
@@ -275,26 +308,27 @@ export function toLearning(): gsap.core.Timeline {
         stagger: { each: 0.25, from: 'start' },
       }
     );
-  }, [], 0.9);
+  }, 0.9);
 
-  return tl;
+  return finish(tl);
 }
 
 // ── SOLIDIFY - "Everything is built and reinforced" ──────────────────────────
 //  Green wave from center outward. All nodes flash green then settle to
 //  category colors. All edges become solid. Full graph alive.
 
-export function toSolidify(): gsap.core.Timeline {
+export function toSolidify(graph: Graph): gsap.core.Timeline {
   killAll();
   const tl = gsap.timeline();
 
+  const palette = getPalette();
   const primaryRgb = getThemeRgb('--color-primary-rgb');
   const edgeColor = rgba(primaryRgb, 0.22);
 
   // All edges snap to solid and strengthen with green flash
-  GRAPH_EDGES.forEach(edge => {
+  graph.edges.forEach(edge => {
     tl.to(`#edge-${edge.id}`, {
-      attr: { stroke: '#30a46c', 'stroke-width': 2.5, 'stroke-dasharray': '9999', 'stroke-dashoffset': 0 },
+      attr: { stroke: palette.success, 'stroke-width': 2.5, 'stroke-dasharray': '9999', 'stroke-dashoffset': 0 },
       opacity: 1,
       duration: 0.4,
     }, 0);
@@ -308,14 +342,14 @@ export function toSolidify(): gsap.core.Timeline {
   const centerX = 370;
   const centerY = 250;
 
-  const waveOrder = [...GRAPH_NODES].sort((a, b) => {
-    const pA = getNodePos(a.id);
-    const pB = getNodePos(b.id);
+  const waveOrder = [...graph.nodes].sort((a, b) => {
+    const pA = getNodePos(graph, a.id);
+    const pB = getNodePos(graph, b.id);
     return Math.hypot(pA.x - centerX, pA.y - centerY) - Math.hypot(pB.x - centerX, pB.y - centerY);
   });
 
   waveOrder.forEach((node, i) => {
-    const color = CATEGORY_COLORS[node.category];
+    const color = nodeColour(palette, graph, node);
     const d = 0.08 + i * 0.08;
 
     // Fade in to full
@@ -323,7 +357,7 @@ export function toSolidify(): gsap.core.Timeline {
 
     // Green flash then settle to category color
     tl.to(`#node-${node.id}-dot`, {
-      attr: { fill: '#30a46c', r: 12 },
+      attr: { fill: palette.success, r: 12 },
       duration: 0.4,
       ease: 'back.out(2.5)',
     }, d);
@@ -335,7 +369,7 @@ export function toSolidify(): gsap.core.Timeline {
 
     // Ring burst then settle
     tl.to(`#node-${node.id}-ring`, {
-      attr: { r: 26, stroke: '#30a46c' },
+      attr: { r: 26, stroke: palette.success },
       opacity: 0.65,
       duration: 0.35,
       ease: 'power2.out',
@@ -351,9 +385,9 @@ export function toSolidify(): gsap.core.Timeline {
   // After wave completes: restore breathing at slightly higher intensity
   const waveEnd = 0.08 + waveOrder.length * 0.08 + 0.55;
 
-  tl.call(() => {
+  startLoop(tl, () => {
     _breathing = gsap.to(
-      GRAPH_NODES.map(n => `#node-${n.id}-ring`),
+      graph.nodes.map(n => `#node-${n.id}-ring`),
       {
         attr: { r: 18 },
         opacity: 0.32,
@@ -364,7 +398,7 @@ export function toSolidify(): gsap.core.Timeline {
         stagger: { each: 0.2, from: 'random' },
       }
     );
-  }, [], waveEnd + 0.3);
+  }, waveEnd + 0.3);
 
-  return tl;
+  return finish(tl);
 }
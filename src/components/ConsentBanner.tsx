@@ -0,0 +1,155 @@
+/**
+ * ConsentBanner.tsx — asks for analytics / attribution consent.
+ *
+ * Shown until the visitor decides (or when the privacy policy version has
+ * changed since they did), and again when they open "Privacy settings" in
+ * the Footer. "Accept" and "Decline" are equally prominent; "Customise"
+ * exposes a toggle per category from lib/consent.ts. Reopened by someone
+ * who has already decided, it can also be closed (✕ or Escape) without
+ * changing anything.
+ *
+ * The stored decision is only read after mount, so prerendered pages never
+ * include the banner and hydration matches whatever the visitor chose.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { CONSENT_CATEGORIES, getConsent, setConsent } from '../lib/consent';
+import type { ConsentCategory, ConsentChoices } from '../lib/consent';
+import { Link } from '../lib/router';
+import { PRIVACY_POLICY_PATH } from '../lib/site';
+
+const CATEGORY_COPY: Record<ConsentCategory, { label: string; desc: string }> = {
+  analytics: {
+    label: 'Usage analytics',
+    desc: 'Anonymous events like which FAQ you opened, so we can see where the page falls short.',
+  },
+  attribution: {
+    label: 'Campaign attribution',
+    desc: 'Which newsletter, post or link brought you here, saved with your sign-up.',
+  },
+};
+
+const allChoices = (value: boolean) =>
+  Object.fromEntries(CONSENT_CATEGORIES.map(c => [c, value])) as ConsentChoices;
+
+interface Props {
+  /** Open regardless of any stored decision (Footer → Privacy settings) */
+  forceOpen: boolean;
+  onClose: () => void;
+}
+
+export default function ConsentBanner({ forceOpen, onClose }: Props) {
+  // null until the stored decision has been read
+  const [decided, setDecided] = useState<boolean | null>(null);
+  const [customising, setCustomising] = useState(false);
+  const [choices, setChoices] = useState<ConsentChoices>(() => allChoices(false));
+
+  // Read by the keydown listener, so it needn't re-subscribe on every render
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const stored = getConsent();
+    setDecided(stored !== null);
+    if (stored) setChoices(stored);
+  }, []);
+
+  // Only someone who has already decided may leave without choosing
+  const dismissable = decided === true && forceOpen;
+
+  useEffect(() => {
+    if (!dismissable) return;
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') dismiss();
+    }
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [dismissable]);
+
+  if (decided === null || (decided && !forceOpen)) return null;
+
+  /** Close without saving, forgetting any unsaved toggles */
+  function dismiss() {
+    setChoices(getConsent() ?? allChoices(false));
+    setCustomising(false);
+    onCloseRef.current();
+  }
+
+  function save(next: ConsentChoices) {
+    setConsent(next);
+    setChoices(next);
+    setDecided(true);
+    setCustomising(false);
+    onClose();
+  }
+
+  return (
+    <div
+      role="region"
+      aria-label="Privacy choices"
+      className="fixed bottom-4 left-4 right-4 sm:left-auto sm:max-w-[420px] z-50 bg-surface border border-primary/10 rounded-2xl shadow-2xl px-5 py-4"
+    >
+      <div className="flex items-start justify-between gap-2 mb-1">
+        <p className="text-body-sm text-primary font-semibold">Your privacy</p>
+        {dismissable && (
+          <button
+            type="button"
+            onClick={dismiss}
+            aria-label="Close without changing your choices"
+            className="-mt-1 -mr-2 w-7 h-7 flex items-center justify-center rounded-lg text-muted hover:text-primary hover:bg-primary/5 transition-colors"
+          >
+            &#10005;
+          </button>
+        )}
+      </div>
+      <p className="text-caption text-muted">
+        We'd like to measure how this page is used and which campaigns bring people here.
+        No advertising cookies, nothing shared with third parties.{' '}
+        <Link to={PRIVACY_POLICY_PATH} className="underline hover:text-primary">Privacy policy</Link>
+      </p>
+
+      {customising && (
+        <div className="mt-3 space-y-2">
+          {CONSENT_CATEGORIES.map(category => (
+            <label key={category} className="flex items-start gap-3 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={choices[category]}
+                onChange={e => setChoices({ ...choices, [category]: e.target.checked })}
+                className="mt-0.5 w-4 h-4 shrink-0 accent-accent cursor-pointer"
+              />
+              <span>
+                <span className="block text-caption font-medium text-primary">{CATEGORY_COPY[category].label}</span>
+                <span className="block text-caption text-muted">{CATEGORY_COPY[category].desc}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {customising ? (
+          <button type="button" onClick={() => save(choices)} className="btn-primary text-caption px-4 py-2">
+            Save choices
+          </button>
+        ) : (
+          <>
+            <button type="button" onClick={() => save(allChoices(true))} className="btn-primary text-caption px-4 py-2">
+              Accept
+            </button>
+            <button type="button" onClick={() => save(allChoices(false))} className="btn-primary text-caption px-4 py-2">
+              Decline
+            </button>
+            <button
+              type="button"
+              onClick={() => setCustomising(true)}
+              className="px-3 py-2 text-caption text-muted hover:text-primary underline"
+            >
+              Customise
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,13 +5,24 @@
  * ~50 nodes trace Australia's coastline connected by straight edges,
  * using the same dot+ring+glow style as HeroBloom.
  * Scroll-triggered animation draws the outline sequentially, then
- * fills interior structure. Subtle breathing and hover proximity.
+ * fills interior structure. Subtle breathing and hover proximity, which
+ * also follows a finger on touch screens.
+ *
+ * The markup is the settled map, so prerendered HTML (and anyone without
+ * JavaScript) sees the finished outline; on mount it is hidden until the
+ * section scrolls into view and the trace plays. Colours are CSS variables
+ * (PALETTE_VARS), so the map follows theme changes without re-rendering.
+ * With reduced motion the map stays drawn: no trace, breathing or hover swell.
  */
 
 import { useEffect, useRef } from 'react';
 import { gsap } from 'gsap';
-
-const COLORS = ['#6366f1', '#8b5cf6', '#3b82f6', '#06b6d4'];
+import { useReducedMotion } from '../lib/motion';
+import { followPointerProximity, showSettled } from '../animations/bloomInteraction';
+import type { BloomLayout, SettledNode } from '../animations/bloomInteraction';
+import type { CategoryColour } from '../data/graphTypes';
+import { CATEGORY_COLOURS, PALETTE_VARS } from '../lib/palette';
+import type { Palette } from '../lib/palette';
 
 function srand(seed: number): number {
   const x = Math.sin(seed * 127.1 + 311.7) * 43758.5453;
@@ -52,7 +63,7 @@ interface ANode {
   id: string;
   tx: number;
   ty: number;
-  color: string;
+  category: CategoryColour;
   dotR: number;
   ringR: number;
 }
@@ -69,8 +80,8 @@ const allNodes: ANode[] = [];
 const allEdges: AEdge[] = [];
 let _ei = 0;
 
-function addNode(id: string, x: number, y: number, color: string, dotR: number, ringR: number) {
-  allNodes.push({ id, tx: x, ty: y, color, dotR, ringR });
+function addNode(id: string, x: number, y: number, category: CategoryColour, dotR: number, ringR: number) {
+  allNodes.push({ id, tx: x, ty: y, category, dotR, ringR });
 }
 
 function addEdge(src: string, tgt: string) {
@@ -82,7 +93,7 @@ COAST.forEach(([x, y], i) => {
   addNode(
     `au-c${i}`,
     x + jitter(s, 3), y + jitter(s + 50, 3),
-    COLORS[i % COLORS.length],
+    CATEGORY_COLOURS[i % CATEGORY_COLOURS.length],
     4 + srand(s + 100) * 2,
     9 + srand(s + 100) * 4,
   );
@@ -97,7 +108,7 @@ TAS.forEach(([x, y], i) => {
   addNode(
     `au-t${i}`,
     x + jitter(s, 2), y + jitter(s + 50, 2),
-    COLORS[(i + 2) % COLORS.length],
+    CATEGORY_COLOURS[(i + 2) % CATEGORY_COLOURS.length],
     3.5, 8,
   );
 });
@@ -113,7 +124,7 @@ INTERIOR.forEach(([x, y], i) => {
   addNode(
     `au-i${i}`,
     x + jitter(s, 5), y + jitter(s + 50, 5),
-    COLORS[(i + 1) % COLORS.length],
+    CATEGORY_COLOURS[(i + 1) % CATEGORY_COLOURS.length],
     3.5 + srand(s + 100) * 1.5,
     7 + srand(s + 100) * 2.5,
   );
@@ -136,6 +147,43 @@ INT_EDGES.forEach(([s, t]) => addEdge(s, t));
 
 const nodeMap = Object.fromEntries(allNodes.map(n => [n.id, n]));
 
+const TAS_EDGE_START = COAST.length;
+const INT_EDGE_START = TAS_EDGE_START + TAS.length + 1;
+
+// Where each node and edge comes to rest once the trace has played
+const settledNodes = new Map<string, SettledNode>();
+
+COAST.forEach((_, i) => {
+  const n = nodeMap[`au-c${i}`];
+  const sm = 0.9 + srand(i * 67) * 0.4;
+  const vibrant = srand(i * 31 + 17) < 0.15;
+  settledNodes.set(n.id, {
+    dotR: n.dotR * sm, dotOpacity: vibrant ? 0.92 : 0.55,
+    ringR: n.ringR * sm, ringOpacity: vibrant ? 0.32 : 0.14,
+  });
+});
+
+TAS.forEach((_, i) => {
+  const n = nodeMap[`au-t${i}`];
+  const sm = 0.9 + srand((i + 100) * 67) * 0.35;
+  settledNodes.set(n.id, { dotR: n.dotR * sm, dotOpacity: 0.5, ringR: n.ringR * sm, ringOpacity: 0.12 });
+});
+
+INTERIOR.forEach((_, i) => {
+  const n = nodeMap[`au-i${i}`];
+  const sm = 0.85 + srand((i + 200) * 67) * 0.4;
+  settledNodes.set(n.id, { dotR: n.dotR * sm, dotOpacity: 0.4, ringR: n.ringR * sm, ringOpacity: 0.1 });
+});
+
+const settledEdgeOpacity = new Map(allEdges.map((e, i) => {
+  let opacity: number;
+  if (i < TAS_EDGE_START) opacity = 0.2 + srand(i * 23 + 13) * 0.2;
+  else if (i < TAS_EDGE_START + TAS.length) opacity = 0.18 + srand((i - TAS_EDGE_START + 50) * 23) * 0.1;
+  else if (i === TAS_EDGE_START + TAS.length) opacity = 0.14;
+  else opacity = 0.12 + srand((i - INT_EDGE_START + 100) * 23) * 0.1;
+  return [e.id, opacity] as const;
+}));
+
 const breathNodeIds = new Set(
   allNodes.filter((_, i) => srand(i * 47 + 23) < 0.3).map(n => n.id),
 );
@@ -144,6 +192,8 @@ const breathEdgeIds = new Set(
   allEdges.filter((_, i) => srand(i * 59 + 31) < 0.2).map(e => e.id),
 );
 
+const LAYOUT: BloomLayout = { nodes: allNodes, edges: allEdges, settledNodes, settledEdgeOpacity };
+
 const HOVER_RADIUS = 90;
 
 // ── Component ────────────────────────────────────────────────────────────────
@@ -152,22 +202,52 @@ export default function CtaAustraliaBloom() {
   const svgRef = useRef<SVGSVGElement>(null);
   const breathTweens = useRef<gsap.core.Tween[]>([]);
   const introDone = useRef(false);
-  const hoveredIds = useRef(new Set<string>());
-  const rafPending = useRef(false);
   const hasPlayed = useRef(false);
+  const reducedMotion = useReducedMotion();
 
   useEffect(() => {
     const svg = svgRef.current;
     if (!svg) return;
 
-    allNodes.forEach(n => {
-      gsap.set(`#${n.id}-dot`, { attr: { r: 0 }, opacity: 0 });
-      gsap.set(`#${n.id}-ring`, { attr: { r: 0 }, opacity: 0 });
-    });
-    allEdges.forEach(e => gsap.set(`#${e.id}`, { opacity: 0 }));
+    if (reducedMotion) {
+      // Also covers switching mid-trace or mid-breath; the trace counts as played
+      showSettled(LAYOUT);
+      hasPlayed.current = true;
+      return;
+    }
 
     let tl: gsap.core.Timeline | null = null;
 
+    // Breathing
+    const startBreathing = () => {
+      const bNodeSels = allNodes
+        .filter(n => breathNodeIds.has(n.id))
+        .map(n => `#${n.id}-ring`);
+      const bEdgeSels = allEdges
+        .filter(e => breathEdgeIds.has(e.id))
+        .map(e => `#${e.id}`);
+
+      if (bNodeSels.length > 0) {
+        breathTweens.current.push(
+          gsap.to(bNodeSels, {
+            attr: { r: '+=5' }, opacity: '+=0.1',
+            duration: 2.6, repeat: -1, yoyo: true, ease: 'sine.inOut',
+            stagger: { each: 0.08, from: 'random' },
+          }),
+        );
+      }
+      if (bEdgeSels.length > 0) {
+        breathTweens.current.push(
+          gsap.to(bEdgeSels, {
+            opacity: '+=0.08',
+            duration: 3, repeat: -1, yoyo: true, ease: 'sine.inOut',
+            stagger: { each: 0.1, from: 'random' },
+          }),
+        );
+      }
+      introDone.current = true;
+    };
+
     const play = () => {
       if (hasPlayed.current) return;
       hasPlayed.current = true;
@@ -179,20 +259,19 @@ export default function CtaAustraliaBloom() {
       // Coast nodes — sequential clockwise trace
       for (let i = 0; i < coastLen; i++) {
         const n = nodeMap[`au-c${i}`];
+        const settled = settledNodes.get(n.id)!;
         const delay = 0.2 + (i / coastLen) * traceDur;
-        const sm = 0.9 + srand(i * 67) * 0.4;
-        const vibrant = srand(i * 31 + 17) < 0.15;
 
         tl.to(`#${n.id}-dot`, {
-          attr: { r: n.dotR * sm },
-          opacity: vibrant ? 0.92 : 0.55,
+          attr: { r: settled.dotR },
+          opacity: settled.dotOpacity,
           duration: 0.35,
           ease: 'back.out(2)',
         }, delay);
 
         tl.to(`#${n.id}-ring`, {
-          attr: { r: n.ringR * sm },
-          opacity: vibrant ? 0.32 : 0.14,
+          attr: { r: settled.ringR },
+          opacity: settled.ringOpacity,
           duration: 0.4,
           ease: 'power2.out',
         }, delay);
@@ -201,179 +280,98 @@ export default function CtaAustraliaBloom() {
       // Coast edges — appear just after their nodes
       for (let i = 0; i < coastLen; i++) {
         const delay = 0.2 + ((i + 0.5) / coastLen) * traceDur + 0.08;
-        const opacity = 0.2 + srand(i * 23 + 13) * 0.2;
-        tl.to(`#au-e${i}`, { opacity, duration: 0.4 }, delay);
+        tl.to(`#au-e${i}`, { opacity: settledEdgeOpacity.get(`au-e${i}`), duration: 0.4 }, delay);
       }
 
       // Tasmania — after ~75% of coast
       const tasStart = 0.2 + traceDur * 0.75;
       for (let i = 0; i < TAS.length; i++) {
         const n = nodeMap[`au-t${i}`];
+        const settled = settledNodes.get(n.id)!;
         const delay = tasStart + i * 0.1;
-        const sm = 0.9 + srand((i + 100) * 67) * 0.35;
 
         tl.to(`#${n.id}-dot`, {
-          attr: { r: n.dotR * sm }, opacity: 0.5,
+          attr: { r: settled.dotR }, opacity: settled.dotOpacity,
           duration: 0.3, ease: 'back.out(2)',
         }, delay);
 
         tl.to(`#${n.id}-ring`, {
-          attr: { r: n.ringR * sm }, opacity: 0.12,
+          attr: { r: settled.ringR }, opacity: settled.ringOpacity,
           duration: 0.35,
         }, delay);
       }
 
       // Tasmania edges + bridge
-      const tasEdgeStart = coastLen;
       for (let i = 0; i < TAS.length; i++) {
-        tl.to(`#au-e${tasEdgeStart + i}`, {
-          opacity: 0.18 + srand((i + 50) * 23) * 0.1,
-          duration: 0.35,
-        }, tasStart + (i + 0.5) * 0.1);
+        const id = `au-e${TAS_EDGE_START + i}`;
+        tl.to(`#${id}`, { opacity: settledEdgeOpacity.get(id), duration: 0.35 }, tasStart + (i + 0.5) * 0.1);
       }
-      tl.to(`#au-e${tasEdgeStart + TAS.length}`, { opacity: 0.14, duration: 0.4 }, tasStart + 0.15);
+      const bridgeId = `au-e${TAS_EDGE_START + TAS.length}`;
+      tl.to(`#${bridgeId}`, { opacity: settledEdgeOpacity.get(bridgeId), duration: 0.4 }, tasStart + 0.15);
 
       // Interior nodes
       const intStart = 1.2;
       for (let i = 0; i < INTERIOR.length; i++) {
         const n = nodeMap[`au-i${i}`];
+        const settled = settledNodes.get(n.id)!;
         const delay = intStart + i * 0.12;
-        const sm = 0.85 + srand((i + 200) * 67) * 0.4;
 
         tl.to(`#${n.id}-dot`, {
-          attr: { r: n.dotR * sm }, opacity: 0.4,
+          attr: { r: settled.dotR }, opacity: settled.dotOpacity,
           duration: 0.3, ease: 'back.out(2)',
         }, delay);
 
         tl.to(`#${n.id}-ring`, {
-          attr: { r: n.ringR * sm }, opacity: 0.1,
+          attr: { r: settled.ringR }, opacity: settled.ringOpacity,
           duration: 0.35,
         }, delay);
       }
 
       // Interior edges
-      const intEdgeStart = tasEdgeStart + TAS.length + 1;
       for (let i = 0; i < INT_EDGES.length; i++) {
-        tl.to(`#au-e${intEdgeStart + i}`, {
-          opacity: 0.12 + srand((i + 100) * 23) * 0.1,
-          duration: 0.4,
-        }, 1.5 + i * 0.06);
+        const id = `au-e${INT_EDGE_START + i}`;
+        tl.to(`#${id}`, { opacity: settledEdgeOpacity.get(id), duration: 0.4 }, 1.5 + i * 0.06);
       }
 
-      // Breathing
-      tl.call(() => {
-        const bNodeSels = allNodes
-          .filter(n => breathNodeIds.has(n.id))
-          .map(n => `#${n.id}-ring`);
-        const bEdgeSels = allEdges
-          .filter(e => breathEdgeIds.has(e.id))
-          .map(e => `#${e.id}`);
-
-        if (bNodeSels.length > 0) {
-          breathTweens.current.push(
-            gsap.to(bNodeSels, {
-              attr: { r: '+=5' }, opacity: '+=0.1',
-              duration: 2.6, repeat: -1, yoyo: true, ease: 'sine.inOut',
-              stagger: { each: 0.08, from: 'random' },
-            }),
-          );
-        }
-        if (bEdgeSels.length > 0) {
-          breathTweens.current.push(
-            gsap.to(bEdgeSels, {
-              opacity: '+=0.08',
-              duration: 3, repeat: -1, yoyo: true, ease: 'sine.inOut',
-              stagger: { each: 0.1, from: 'random' },
-            }),
-          );
-        }
-        introDone.current = true;
-      }, [], 3.5);
+      tl.call(startBreathing, [], 3.5);
     };
 
-    const observer = new IntersectionObserver(
-      ([entry]) => { if (entry.isIntersecting) play(); },
-      { threshold: 0.15 },
-    );
-    observer.observe(svg);
-
-    // Hover proximity
-    const onMouseMove = (e: MouseEvent) => {
-      if (!introDone.current || !svgRef.current || rafPending.current) return;
-      rafPending.current = true;
-
-      requestAnimationFrame(() => {
-        rafPending.current = false;
-        const s = svgRef.current;
-        if (!s) return;
-
-        const rect = s.getBoundingClientRect();
-        if (
-          e.clientX < rect.left - 60 || e.clientX > rect.right + 60 ||
-          e.clientY < rect.top - 60 || e.clientY > rect.bottom + 60
-        ) {
-          if (hoveredIds.current.size > 0) {
-            hoveredIds.current.forEach(id => {
-              gsap.to(`#${id}-g`, {
-                scale: 1, filter: 'brightness(1)',
-                svgOrigin: `${nodeMap[id].tx} ${nodeMap[id].ty}`,
-                duration: 0.4, overwrite: true,
-              });
-            });
-            hoveredIds.current.clear();
-          }
-          return;
-        }
-
-        const pt = s.createSVGPoint();
-        pt.x = e.clientX;
-        pt.y = e.clientY;
-        const ctm = s.getScreenCTM();
-        if (!ctm) return;
-        const svgPt = pt.matrixTransform(ctm.inverse());
-
-        const newHovered = new Set<string>();
-
-        for (const n of allNodes) {
-          const dx = n.tx - svgPt.x;
-          const dy = n.ty - svgPt.y;
-          const factor = Math.max(0, 1 - Math.sqrt(dx * dx + dy * dy) / HOVER_RADIUS);
-
-          if (factor > 0) {
-            newHovered.add(n.id);
-            gsap.to(`#${n.id}-g`, {
-              scale: 1 + factor * 0.6,
-              filter: `brightness(${1 + factor * 0.5})`,
-              svgOrigin: `${n.tx} ${n.ty}`,
-              duration: 0.2, overwrite: true,
-            });
-          }
-        }
-
-        hoveredIds.current.forEach(id => {
-          if (!newHovered.has(id)) {
-            gsap.to(`#${id}-g`, {
-              scale: 1, filter: 'brightness(1)',
-              svgOrigin: `${nodeMap[id].tx} ${nodeMap[id].ty}`,
-              duration: 0.4, overwrite: true,
-            });
-          }
-        });
-
-        hoveredIds.current = newHovered;
-      });
-    };
+    let observer: IntersectionObserver | null = null;
 
-    document.addEventListener('mousemove', onMouseMove);
+    if (hasPlayed.current) {
+      // Already drawn (the trace played, or was skipped for reduced motion): just breathe
+      startBreathing();
+    } else {
+      allNodes.forEach(n => {
+        gsap.set(`#${n.id}-dot`, { attr: { r: 0 }, opacity: 0 });
+        gsap.set(`#${n.id}-ring`, { attr: { r: 0 }, opacity: 0 });
+      });
+      allEdges.forEach(e => gsap.set(`#${e.id}`, { opacity: 0 }));
+
+      observer = new IntersectionObserver(
+        ([entry]) => { if (entry.isIntersecting) play(); },
+        { threshold: 0.15 },
+      );
+      observer.observe(svg);
+    }
+
+    const stopProximity = followPointerProximity(() => svgRef.current, allNodes, {
+      margin: 60,
+      radius: HOVER_RADIUS,
+      scale: 1.6,
+      brightness: 1.5,
+      isActive: () => introDone.current,
+    });
 
     return () => {
-      observer.disconnect();
-      document.removeEventListener('mousemove', onMouseMove);
+      observer?.disconnect();
+      stopProximity();
       tl?.kill();
       breathTweens.current.forEach(tw => tw.kill());
       breathTweens.current = [];
+      introDone.current = false;
     };
-  }, []);
+  }, [reducedMotion]);
 
   return (
     <svg
@@ -384,6 +382,19 @@ export default function CtaAustraliaBloom() {
       style={{ overflow: 'visible' }}
       aria-hidden="true"
     >
+      <AustraliaBloomArt />
+    </svg>
+  );
+}
+
+/**
+ * The settled map without any animation, for a 900×700 viewBox. Also drawn
+ * into the build's Open Graph images (OgImage.tsx), where CSS variables
+ * don't resolve — hence `palette`.
+ */
+export function AustraliaBloomArt({ palette = PALETTE_VARS }: { palette?: Palette }) {
+  return (
+    <>
       <defs>
         <filter id="au-glow" x="-80%" y="-80%" width="260%" height="260%">
           <feGaussianBlur stdDeviation="3" result="blur" />
@@ -405,36 +416,39 @@ export default function CtaAustraliaBloom() {
               id={e.id}
               x1={s.tx} y1={s.ty}
               x2={t.tx} y2={t.ty}
-              stroke="var(--color-edge)"
+              stroke={palette.edge}
               strokeWidth={1}
               strokeLinecap="round"
-              opacity={0}
+              opacity={settledEdgeOpacity.get(e.id)}
             />
           );
         })}
       </g>
 
       <g>
-        {allNodes.map(n => (
-          <g key={n.id} id={`${n.id}-g`}>
-            <circle
-              id={`${n.id}-ring`}
-              cx={n.tx} cy={n.ty} r={0}
-              fill="none"
-              stroke={n.color}
-              strokeWidth={0.8}
-              opacity={0}
-            />
-            <circle
-              id={`${n.id}-dot`}
-              cx={n.tx} cy={n.ty} r={0}
-              fill={n.color}
-              filter="url(#au-glow)"
-              opacity={0}
-            />
-          </g>
-        ))}
+        {allNodes.map(n => {
+          const settled = settledNodes.get(n.id)!;
+          return (
+            <g key={n.id} id={`${n.id}-g`}>
+              <circle
+                id={`${n.id}-ring`}
+                cx={n.tx} cy={n.ty} r={settled.ringR}
+                fill="none"
+                stroke={palette.categories[n.category]}
+                strokeWidth={0.8}
+                opacity={settled.ringOpacity}
+              />
+              <circle
+                id={`${n.id}-dot`}
+                cx={n.tx} cy={n.ty} r={settled.dotR}
+                fill={palette.categories[n.category]}
+                filter="url(#au-glow)"
+                opacity={settled.dotOpacity}
+              />
+            </g>
+          );
+        })}
       </g>
-    </svg>
+    </>
   );
 }
@@ -26,7 +26,7 @@ export default function CtaSection({ onOpenForm }: Props) {
           and help shape what we build.
         </p>
 
-        <button onClick={onOpenForm} className="btn-primary text-body px-7 py-[15px]" style={{ backgroundColor: '#1a32e0' }}>
+        <button onClick={onOpenForm} className="btn-primary btn-brand text-body px-7 py-[15px]">
           Get Early Access
         </button>
 
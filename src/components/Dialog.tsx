@@ -0,0 +1,153 @@
+/**
+ * Dialog.tsx — accessible modal dialog
+ *
+ * Renders into <body> over a dimmed backdrop, as role="dialog" labelled by
+ * its title. While open:
+ *   - the rest of the page is inert, and Tab / Shift+Tab cycle inside the panel
+ *   - Escape or a click on the backdrop calls onClose
+ *   - the page behind doesn't scroll
+ * Focus moves into the panel on open (an autoFocus field wins, else the first
+ * control) and returns to whatever opened it — usually the CTA — on close.
+ * The caller decides whether onClose actually closes (e.g. not mid-submit).
+ */
+
+import { useEffect, useId, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  /** Extra header buttons, before the close button */
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+const FOCUSABLE = [
+  'a[href]', 'button:not([disabled])', 'input:not([disabled])', 'select:not([disabled])',
+  'textarea:not([disabled])', '[tabindex]:not([tabindex="-1"])',
+].join(', ');
+
+function focusableIn(el: HTMLElement): HTMLElement[] {
+  return Array.from(el.querySelectorAll<HTMLElement>(FOCUSABLE))
+    .filter(node => node.getClientRects().length > 0);
+}
+
+// ── Page behind the dialog ──
+
+/** Makes every other child of <body> inert; returns a function undoing it */
+function inertSiblings(container: HTMLElement): () => void {
+  const changed = Array.from(document.body.children)
+    .filter((el): el is HTMLElement => el instanceof HTMLElement && el !== container && !el.inert);
+  changed.forEach(el => { el.inert = true; });
+  return () => changed.forEach(el => { el.inert = false; });
+}
+
+/** Stops the page scrolling, keeping its width so nothing shifts; returns a function undoing it */
+function lockScroll(): () => void {
+  const { style } = document.body;
+  const previous = { overflow: style.overflow, paddingRight: style.paddingRight };
+  const scrollbar = window.innerWidth - document.documentElement.clientWidth;
+  style.overflow = 'hidden';
+  if (scrollbar > 0) style.paddingRight = `${scrollbar}px`;
+  return () => Object.assign(style, previous);
+}
+
+export default function Dialog({ isOpen, onClose, title, actions, children }: Props) {
+  const titleId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Read by the keydown listener, so it needn't re-subscribe on every render
+  const onCloseRef = useRef(onClose);
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const panel = panelRef.current;
+    if (!isOpen || !container || !panel) return;
+
+    const opener = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+    const restoreInert = inertSiblings(container);
+    const unlockScroll = lockScroll();
+
+    // autoFocus inside the panel has already run by now
+    if (!panel.contains(document.activeElement)) {
+      (focusableIn(panel)[0] ?? panel).focus();
+    }
+
+    function onKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        onCloseRef.current();
+        return;
+      }
+      if (e.key !== 'Tab' || !panel) return;
+
+      const focusable = focusableIn(panel);
+      if (focusable.length === 0) {
+        e.preventDefault();
+        return;
+      }
+      const first = focusable[0];
+      const last = focusable[focusable.length - 1];
+      const outside = !panel.contains(document.activeElement);
+      if (e.shiftKey && (document.activeElement === first || outside)) {
+        e.preventDefault();
+        last.focus();
+      } else if (!e.shiftKey && (document.activeElement === last || outside)) {
+        e.preventDefault();
+        first.focus();
+      }
+    }
+    document.addEventListener('keydown', onKeyDown);
+
+    return () => {
+      document.removeEventListener('keydown', onKeyDown);
+      unlockScroll();
+      restoreInert();
+      opener?.focus({ preventScroll: true });
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return createPortal(
+    <div
+      ref={containerRef}
+      className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      onClick={e => { if (e.target === e.currentTarget) onClose(); }}
+    >
+      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm pointer-events-none" aria-hidden="true" />
+
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        className="relative w-full max-w-[440px] bg-surface border border-primary/10 rounded-2xl shadow-2xl overflow-hidden focus:outline-none"
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 pt-5 pb-4 border-b border-primary/5">
+          <h2 id={titleId} className="text-body font-bold text-primary">{title}</h2>
+          <div className="flex items-center gap-1">
+            {actions}
+            <button
+              type="button"
+              onClick={onClose}
+              aria-label="Close"
+              className="w-7 h-7 flex items-center justify-center rounded-lg text-muted hover:text-primary hover:bg-primary/5 transition-colors"
+            >
+              &#10005;
+            </button>
+          </div>
+        </div>
+
+        {children}
+      </div>
+    </div>,
+    document.body,
+  );
+}
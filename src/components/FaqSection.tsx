@@ -1,32 +1,14 @@
 import { useState } from 'react';
-
-const FAQS = [
-  {
-    q: 'What is Bloomed?',
-    a: "Bloomed is a comprehensive learning platform for Australian medical students and junior doctors. You work through diagnostic questions and can upload your course materials - lecture slides, readings, unit guides - so Bloomed understands exactly what you need to know. From there, it maps your knowledge across every subject and delivers what you're missing: curated notes, purpose-built flashcards, and targeted case-based sessions. No more studying blind.",
-  },
-  {
-    q: 'How is Bloomed different from Anki or question banks?',
-    a: "Bloomed combines the best of everything: an Anki-style spaced repetition scheduler, a targeted textbook that surfaces the right content per knowledge gap, and a diagnostic process that actually takes your course context into account - your slides, your readings, your curriculum. Rather than grinding through a question bank and hoping it covers what your exam needs, Bloomed builds a study plan around you specifically.",
-  },
-  {
-    q: 'Who is Bloomed built for?',
-    a: 'Australian medical students (both pre-clinical and clinical years) and junior doctors. Bloomed covers all content needed for Australian medical school - all organ systems and clinical medicine, grounded in the foundational sciences: anatomy, physiology, biochemistry, pathology, pharmacology, microbiology, and immunology.',
-  },
-  {
-    q: 'When is Bloomed launching?',
-    a: 'Currently in early access - sign up to be notified and help shape the product before public launch.',
-  },
-  {
-    q: 'Is it free?',
-    a: "Pricing hasn't been announced yet - early access sign-ups might get free access 😉.",
-  },
-];
+import { track } from '../lib/analytics';
+import { FAQS } from '../data/faqs';
 
 export default function FaqSection() {
   const [openIndex, setOpenIndex] = useState<number | null>(null);
 
-  const toggle = (i: number) => setOpenIndex(openIndex === i ? null : i);
+  const toggle = (i: number) => {
+    if (openIndex !== i) track('faq_opened', { index: i, question: FAQS[i].q });
+    setOpenIndex(openIndex === i ? null : i);
+  };
 
   return (
     <section id="faq" className="relative pt-24 lg:pt-40 pb-24 px-6 sm:px-8 lg:px-16">
@@ -1,14 +1,42 @@
-export default function Footer() {
+import { Link, useLocation } from '../lib/router';
+import { scrollBehavior } from '../lib/motion';
+import { PRIVACY_POLICY_PATH } from '../lib/site';
+
+interface Props {
+  onOpenPrivacySettings: () => void;
+}
+
+export default function Footer({ onOpenPrivacySettings }: Props) {
+  const { pathname } = useLocation();
+
   return (
     <footer className="border-t border-primary/5 px-6 sm:px-8 lg:px-16 py-8 lg:py-10">
       <div className="max-w-7xl mx-auto flex flex-col sm:flex-row items-center justify-between gap-4">
-        <a href="#" onClick={(e) => { e.preventDefault(); window.scrollTo({ top: 0, behavior: 'smooth' }); }} className="flex items-center gap-2">
+        <Link
+          to="/"
+          onClick={(e) => {
+            if (pathname !== '/') return;
+            e.preventDefault();
+            window.scrollTo({ top: 0, behavior: scrollBehavior() });
+          }}
+          className="flex items-center gap-2"
+        >
           <img src="/logo.png" alt="Bloomed" className="h-8 w-auto" />
           <span className="font-accent italic font-bold text-h3 gradient-text">Bloomed</span>
-        </a>
-        <p className="text-caption text-muted/60">
-          &copy; {new Date().getFullYear()} Bloomed. Built for Australian medical students and doctors.
-        </p>
+        </Link>
+        <div className="flex flex-col sm:items-end items-center gap-1">
+          <div className="flex items-center gap-4 text-caption text-muted">
+            <Link to="/#faq" className="hover:text-primary transition-colors">FAQ</Link>
+            <Link to={PRIVACY_POLICY_PATH} className="hover:text-primary transition-colors">Privacy policy</Link>
+            <Link to="/terms" className="hover:text-primary transition-colors">Terms</Link>
+            <button type="button" onClick={onOpenPrivacySettings} className="hover:text-primary transition-colors">
+              Privacy settings
+            </button>
+          </div>
+          <p className="text-caption text-muted/60">
+            &copy; {new Date().getFullYear()} Bloomed. Built for Australian medical students and doctors.
+          </p>
+        </div>
       </div>
     </footer>
   );
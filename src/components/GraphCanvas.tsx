@@ -2,35 +2,41 @@
  * GraphCanvas.tsx
  *
  * Pure SVG rendering component. Renders nodes and edges as SVG elements
- * with unique IDs. GSAP targets these IDs directly — this component
- * never updates after mount (wrapped in React.memo with static props).
+ * with unique IDs. GSAP targets these IDs directly, and D3 moves the nodes.
+ * Initial colours are CSS variables, so they follow the theme until GSAP
+ * takes over.
+ *
+ * Each node is focusable (one tab stop for the whole graph: the active
+ * node) and labelled for screen readers with its category and, per phase,
+ * whether it's known or being learnt — see lib/graphA11y.ts. KnowledgeGraph
+ * handles the keyboard.
  */
 
 import { memo } from 'react';
-import type { GraphNode, GraphEdge } from '../data/graphTypes';
-
-const CATEGORY_COLORS: Record<string, string> = {
-  foundational: '#6366f1',
-  pathological: '#8b5cf6',
-  clinical:     '#3b82f6',
-  specialty:    '#06b6d4',
-};
+import type { Graph, GraphPhase } from '../data/graphTypes';
+import { PALETTE_VARS } from '../lib/palette';
+import { categoryOf } from '../lib/graphSchema';
+import { graphLabel, nodeLabel } from '../lib/graphA11y';
 
 const NODE_RADIUS = 7;
 
 interface Props {
-  nodes: GraphNode[];
-  edges: GraphEdge[];
+  graph: Graph;
+  phase: GraphPhase;
+  /** The node reachable with Tab */
+  activeId: string;
 }
 
-function GraphCanvas({ nodes, edges }: Props) {
-  const nodeMap = Object.fromEntries(nodes.map(n => [n.id, n]));
+function GraphCanvas({ graph, phase, activeId }: Props) {
+  const nodeMap = Object.fromEntries(graph.nodes.map(n => [n.id, n]));
 
   return (
     <svg
       viewBox="0 0 740 500"
       className="w-full h-full select-none"
       style={{ overflow: 'visible' }}
+      role="group"
+      aria-label={graphLabel(graph)}
     >
       <defs>
         {/* Glow filter for nodes */}
@@ -43,9 +49,9 @@ function GraphCanvas({ nodes, edges }: Props) {
         </filter>
       </defs>
 
-      {/* -- EDGES -- */}
-      <g>
-        {edges.map(edge => {
+      {/* -- EDGES -- (spoken as each node's connections instead) */}
+      <g aria-hidden="true">
+        {graph.edges.map(edge => {
           const src = nodeMap[edge.source];
           const tgt = nodeMap[edge.target];
           if (!src || !tgt) return null;
@@ -57,7 +63,7 @@ function GraphCanvas({ nodes, edges }: Props) {
               y1={src.y}
               x2={tgt.x}
               y2={tgt.y}
-              stroke="var(--color-edge)"
+              stroke={PALETTE_VARS.edge}
               strokeWidth={1.5}
               strokeLinecap="round"
             />
@@ -67,16 +73,23 @@ function GraphCanvas({ nodes, edges }: Props) {
 
       {/* -- NODES -- */}
       <g>
-        {nodes.map(node => {
-          const color = CATEGORY_COLORS[node.category];
+        {graph.nodes.map(node => {
+          const color = PALETTE_VARS.categories[categoryOf(graph, node).colour];
           const labelLines = node.label.split('\n');
 
           return (
             <g
               key={node.id}
               id={`node-${node.id}`}
+              className="graph-node"
               transform={`translate(${node.x}, ${node.y})`}
+              role="img"
+              aria-roledescription="topic"
+              aria-label={nodeLabel(graph, node, phase)}
+              tabIndex={node.id === activeId ? 0 : -1}
             >
+              {/* Keyboard focus indicator — shown by CSS, never touched by GSAP */}
+              <circle className="graph-node-focus" r={24} fill="none" />
               {/* Outer glow ring — animated by GSAP for pulse effects */}
               <circle
                 id={`node-${node.id}-ring`}
@@ -116,6 +129,8 @@ function GraphCanvas({ nodes, edges }: Props) {
   );
 }
 
-// Wrapped in memo: since nodes/edges are module-level constants,
-// this component never re-renders — keeping GSAP's DOM mutations intact.
+// Wrapped in memo: the graph is a module-level constant, so it only
+// re-renders for phase / activeId — and then only the aria-label and
+// tabIndex props differ. React leaves the transforms, fills and radii that
+// D3 and GSAP own alone, because their props never change.
 export default memo(GraphCanvas);
@@ -1,20 +1,28 @@
 import { useEffect, useRef } from 'react';
+import type { ReactNode } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import HeroBloom from './HeroBloom';
+import { useReducedMotion } from '../lib/motion';
 
 gsap.registerPlugin(ScrollTrigger);
 
 interface Props {
   onOpenForm: () => void;
+  /** Replaces the default subheadline (used by the per-university pages) */
+  subheadline?: ReactNode;
 }
 
-export default function Hero({ onOpenForm }: Props) {
+export default function Hero({ onOpenForm, subheadline }: Props) {
   const sectionRef = useRef<HTMLElement>(null);
   const bloomRef = useRef<HTMLDivElement>(null);
   const textRef = useRef<HTMLDivElement>(null);
+  const reducedMotion = useReducedMotion();
 
   useEffect(() => {
+    // Reduced motion: the text is simply there, and nothing moves on scroll
+    if (reducedMotion) return;
+
     const ctx = gsap.context(() => {
       gsap.from('.hero-headline', { opacity: 0, y: 50, duration: 1,   ease: 'power3.out', delay: 1.15 });
       gsap.from('.hero-sub',      { opacity: 0, y: 30, duration: 0.9, ease: 'power3.out', delay: 1.35 });
@@ -47,7 +55,7 @@ export default function Hero({ onOpenForm }: Props) {
       }
     });
     return () => ctx.revert();
-  }, []);
+  }, [reducedMotion]);
 
   return (
     <section ref={sectionRef} className="relative min-h-screen flex flex-col items-center justify-center pt-20 pb-0 lg:pt-24 lg:pb-24 px-6 sm:px-8 lg:px-16 text-center">
@@ -65,23 +73,26 @@ export default function Hero({ onOpenForm }: Props) {
       </div>
 
       <div ref={textRef} className="relative max-w-4xl">
-        <h1 className="hero-headline text-[3rem] lg:text-display font-semibold leading-[1.0] lg:leading-[1.08] mb-8 lg:mb-10" style={{ color: '#000000' }}>
+        <h1 className="hero-headline text-[3rem] lg:text-display font-semibold leading-[1.0] lg:leading-[1.08] mb-8 lg:mb-10" style={{ color: 'var(--color-heading)' }}>
           <span className="sm:whitespace-nowrap"><span className="font-accent italic">Diagnose</span> Your Weaknesses.</span>
           <br />
           <span className="whitespace-nowrap"><span className="font-accent italic">Master</span> Medicine.</span>
         </h1>
 
-        <p className="hero-sub text-body-lg max-w-2xl mx-auto mb-12 lg:mb-14" style={{ color: '#000000' }}>
-          Answer questions. We spot the gaps.
-          <br />
-          You get exactly what you need to fill them.
+        <p className="hero-sub text-body-lg max-w-2xl mx-auto mb-12 lg:mb-14" style={{ color: 'var(--color-heading)' }}>
+          {subheadline ?? (
+            <>
+              Answer questions. We spot the gaps.
+              <br />
+              You get exactly what you need to fill them.
+            </>
+          )}
         </p>
 
         <div className="hero-cta flex justify-center">
           <button
             onClick={onOpenForm}
-            className="btn-primary text-body px-7 py-[15px]"
-            style={{ backgroundColor: '#1a32e0' }}
+            className="btn-primary btn-brand text-body px-7 py-[15px]"
           >
             Get Early Access
           </button>
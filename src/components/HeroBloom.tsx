@@ -6,15 +6,30 @@
  * Nodes spawn in place with a pulse/ripple, ordered roughly
  * center-outward but with organic noise. ~15% of nodes are
  * subtly vibrant. After the bloom, a subset continues breathing.
+ *
+ * The markup is the settled bloom, so prerendered HTML shows the finished
+ * flower. The intro hides it and replays it, except while hydrating that
+ * prerendered HTML — then the bloom is already on screen and only breathes.
+ * Colours are CSS variables (PALETTE_VARS), so the bloom follows theme
+ * changes without re-rendering; the animations only touch size and opacity.
+ * With reduced motion the flower is shown settled: no intro, breathing or
+ * hover swell. Nodes near the pointer swell — under a mouse, or under a
+ * finger while it's on the screen.
  */
 
 import { useEffect, useRef } from 'react';
 import { gsap } from 'gsap';
-
-const COLORS = ['#6366f1', '#8b5cf6', '#3b82f6', '#06b6d4'];
-const PETAL_COLORS = [
-  COLORS[0], COLORS[1], COLORS[2], COLORS[3],
-  COLORS[0], COLORS[2], COLORS[1],
+import { isHydrating } from '../lib/hydration';
+import { useReducedMotion } from '../lib/motion';
+import { followPointerProximity, showSettled } from '../animations/bloomInteraction';
+import type { BloomLayout } from '../animations/bloomInteraction';
+import type { CategoryColour } from '../data/graphTypes';
+import { CATEGORY_COLOURS, PALETTE_VARS } from '../lib/palette';
+import type { Palette } from '../lib/palette';
+
+const PETAL_CATEGORIES: CategoryColour[] = [
+  CATEGORY_COLOURS[0], CATEGORY_COLOURS[1], CATEGORY_COLOURS[2], CATEGORY_COLOURS[3],
+  CATEGORY_COLOURS[0], CATEGORY_COLOURS[2], CATEGORY_COLOURS[1],
 ];
 
 const CX = 500;
@@ -27,7 +42,7 @@ interface BNode {
   id: string;
   tx: number;
   ty: number;
-  color: string;
+  category: CategoryColour;
   dotR: number;
   ringR: number;
 }
@@ -58,9 +73,9 @@ let _eidx = 0;
 
 function addNode(
   id: string, tx: number, ty: number,
-  color: string, dotR: number, ringR: number,
+  category: CategoryColour, dotR: number, ringR: number,
 ): BNode {
-  const n: BNode = { id, tx, ty, color, dotR, ringR };
+  const n: BNode = { id, tx, ty, category, dotR, ringR };
   allNodes.push(n);
   return n;
 }
@@ -75,13 +90,13 @@ addNode(
   'hb-c0',
   CX + Math.cos(Math.PI * 2 * 0.15) * 25,
   CY + Math.sin(Math.PI * 2 * 0.15) * 25,
-  COLORS[0], 4, 8,
+  CATEGORY_COLOURS[0], 4, 8,
 );
 addNode(
   'hb-c1',
   CX + Math.cos(Math.PI * 2 * 0.65) * 25,
   CY + Math.sin(Math.PI * 2 * 0.65) * 25,
-  COLORS[2], 4, 8,
+  CATEGORY_COLOURS[2], 4, 8,
 );
 
 addEdge('hb-c0', 'hb-c1');
@@ -121,7 +136,7 @@ const OUTER_PAIRS: [string, string][] = [
 for (let p = 0; p < NUM_PETALS; p++) {
   const petalAngle = (Math.PI * 2 * p) / NUM_PETALS - Math.PI / 2;
   const perpAngle = petalAngle + Math.PI / 2;
-  const color = PETAL_COLORS[p];
+  const category = PETAL_CATEGORIES[p];
 
   for (const tmpl of PETAL_TMPL) {
     const seed = p * 100 + PETAL_TMPL.indexOf(tmpl);
@@ -136,7 +151,7 @@ for (let p = 0; p < NUM_PETALS; p++) {
     const tx = CX + Math.cos(petalAngle) * dist + Math.cos(perpAngle) * perp + xJ;
     const ty = CY + Math.sin(petalAngle) * dist + Math.sin(perpAngle) * perp + yJ;
 
-    addNode(`hb-p${p}-${tmpl.role}`, tx, ty, color, tmpl.dotR, tmpl.ringR);
+    addNode(`hb-p${p}-${tmpl.role}`, tx, ty, category, tmpl.dotR, tmpl.ringR);
   }
 
   addEdge(p % 2 === 0 ? 'hb-c0' : 'hb-c1', `hb-p${p}-base`);
@@ -186,6 +201,24 @@ sortedEntries.forEach((entry, sortIdx) => {
   nodeDelayMap.set(entry.node.id, Math.max(0.05, NODE_START + curved * NODE_SPREAD + timeNoise));
 });
 
+// Where each node and edge comes to rest after the intro
+const settledNodes = new Map(allNodes.map((n, idx) => {
+  const vibrant = vibrantSet.has(n.id);
+  const sm = nodeSizeMult.get(n.id) ?? 1;
+  return [n.id, {
+    dotR: n.dotR * sm,
+    ringR: n.ringR * sm,
+    dotOpacity: Math.min(1, (vibrant
+      ? 0.92 + srand(idx * 41 + 3) * 0.08
+      : 0.22 + srand(idx * 41 + 3) * 0.33) + 0.2),
+    ringOpacity: (vibrant
+      ? 0.30 + srand(idx * 53 + 11) * 0.1
+      : 0.04 + srand(idx * 53 + 11) * 0.06) + 0.2,
+  }] as const;
+}));
+
+const settledEdgeOpacity = new Map(allEdges.map((e, i) => [e.id, 0.5 + srand(i * 23 + 13) * 0.5] as const));
+
 const breathNodeIds = new Set(
   allNodes.filter((_, i) => srand(i * 47 + 23) < 0.4).map(n => n.id),
 );
@@ -193,6 +226,8 @@ const breathEdgeIds = new Set(
   allEdges.filter((_, i) => srand(i * 59 + 31) < 0.25).map(e => e.id),
 );
 
+const LAYOUT: BloomLayout = { nodes: allNodes, edges: allEdges, settledNodes, settledEdgeOpacity };
+
 const HOVER_RADIUS = 120;
 const HOVER_SCALE = 1.8;
 const HOVER_BRIGHTNESS = 1.6;
@@ -203,64 +238,18 @@ export default function HeroBloom() {
   const svgRef = useRef<SVGSVGElement>(null);
   const breathTweens = useRef<gsap.core.Tween[]>([]);
   const introDone = useRef(false);
-  const hoveredIds = useRef(new Set<string>());
-  const rafPending = useRef(false);
+  const introPlayed = useRef(false);
+  const reducedMotion = useReducedMotion();
 
   useEffect(() => {
-    const tl = gsap.timeline();
+    if (reducedMotion) {
+      // Also covers switching mid-intro or mid-breath; the intro counts as seen
+      showSettled(LAYOUT);
+      introPlayed.current = true;
+      return;
+    }
 
-    // --- Initial state: all at target position, invisible, zero-radius ---
-    allNodes.forEach(n => {
-      gsap.set(`#${n.id}-dot`,  { attr: { cx: n.tx, cy: n.ty, r: 0 }, opacity: 0 });
-      gsap.set(`#${n.id}-ring`, { attr: { cx: n.tx, cy: n.ty, r: 0 }, opacity: 0 });
-    });
-    allEdges.forEach(e => gsap.set(`#${e.id}`, { opacity: 0 }));
-
-    // --- Nodes: pulse in by noisy distance-from-center order ---
-    sortedEntries.forEach(({ node: n, idx }) => {
-      const d = nodeDelayMap.get(n.id)!;
-      const vibrant = vibrantSet.has(n.id);
-      const sm = nodeSizeMult.get(n.id) ?? 1;
-      const finalDotR = n.dotR * sm;
-      const finalRingR = n.ringR * sm;
-
-      const dotOpacity = Math.min(1, (vibrant
-        ? 0.92 + srand(idx * 41 + 3) * 0.08
-        : 0.22 + srand(idx * 41 + 3) * 0.33) + 0.2);
-
-      const ringPeakOpacity = (vibrant ? 0.6 : 0.25) + 0.2;
-      const ringRestOpacity = (vibrant
-        ? 0.30 + srand(idx * 53 + 11) * 0.1
-        : 0.04 + srand(idx * 53 + 11) * 0.06) + 0.2;
-
-      const dur = 0.4 + srand(idx * 11 + 5) * 0.25;
-      const rippleDur = dur * 0.45;
-      const settleDur = dur * 0.55;
-      const rippleScale = vibrant ? 3.2 : 2.5;
-
-      tl.to(`#${n.id}-dot`, {
-        attr: { r: finalDotR }, opacity: dotOpacity,
-        duration: dur, ease: 'back.out(3)',
-      }, d);
-
-      tl.to(`#${n.id}-ring`, {
-        attr: { r: finalRingR * rippleScale }, opacity: ringPeakOpacity,
-        duration: rippleDur, ease: 'power2.out',
-      }, d);
-      tl.to(`#${n.id}-ring`, {
-        attr: { r: finalRingR }, opacity: ringRestOpacity,
-        duration: settleDur, ease: 'power2.inOut',
-      }, d + rippleDur);
-    });
-
-    // --- Edges: appear shortly after both connecting nodes ---
-    allEdges.forEach((e, i) => {
-      const srcD = nodeDelayMap.get(e.src) ?? 0;
-      const tgtD = nodeDelayMap.get(e.tgt) ?? 0;
-      const edgeDelay = Math.max(srcD, tgtD) + 0.1 + srand(i * 19 + 7) * 0.12;
-      const edgeOpacity = 0.5 + srand(i * 23 + 13) * 0.5;
-      tl.to(`#${e.id}`, { opacity: edgeOpacity, duration: 0.5 }, edgeDelay);
-    });
+    const tl = gsap.timeline();
 
     // --- Breathing: only a subset of nodes and edges continue pulsing ---
     const breathNodeSels = allNodes
@@ -270,7 +259,7 @@ export default function HeroBloom() {
       .filter(e => breathEdgeIds.has(e.id))
       .map(e => `#${e.id}`);
 
-    tl.call(() => {
+    const startBreathing = () => {
       if (breathNodeSels.length > 0) {
         breathTweens.current.push(
           gsap.to(breathNodeSels, {
@@ -297,77 +286,74 @@ export default function HeroBloom() {
         );
       }
       introDone.current = true;
-    }, [], 3.2);
-
-    const onMouseMove = (e: MouseEvent) => {
-      if (!introDone.current || !svgRef.current || rafPending.current) return;
-      rafPending.current = true;
-
-      requestAnimationFrame(() => {
-        rafPending.current = false;
-        const svg = svgRef.current;
-        if (!svg) return;
-
-        const rect = svg.getBoundingClientRect();
-        if (
-          e.clientX < rect.left - 80 || e.clientX > rect.right + 80 ||
-          e.clientY < rect.top - 80 || e.clientY > rect.bottom + 80
-        ) {
-          if (hoveredIds.current.size > 0) {
-            hoveredIds.current.forEach(id => {
-              gsap.to(`#${id}-g`, { scale: 1, filter: 'brightness(1)', svgOrigin: `${nodeMap[id].tx} ${nodeMap[id].ty}`, duration: 0.4, overwrite: true });
-            });
-            hoveredIds.current.clear();
-          }
-          return;
-        }
-
-        const pt = svg.createSVGPoint();
-        pt.x = e.clientX;
-        pt.y = e.clientY;
-        const ctm = svg.getScreenCTM();
-        if (!ctm) return;
-        const svgPt = pt.matrixTransform(ctm.inverse());
-
-        const newHovered = new Set<string>();
-
-        for (const n of allNodes) {
-          const dx = n.tx - svgPt.x;
-          const dy = n.ty - svgPt.y;
-          const dist = Math.sqrt(dx * dx + dy * dy);
-          const factor = Math.max(0, 1 - dist / HOVER_RADIUS);
-
-          if (factor > 0) {
-            newHovered.add(n.id);
-            gsap.to(`#${n.id}-g`, {
-              scale: 1 + factor * (HOVER_SCALE - 1),
-              filter: `brightness(${1 + factor * (HOVER_BRIGHTNESS - 1)})`,
-              svgOrigin: `${n.tx} ${n.ty}`,
-              duration: 0.2,
-              overwrite: true,
-            });
-          }
-        }
-
-        hoveredIds.current.forEach(id => {
-          if (!newHovered.has(id)) {
-            gsap.to(`#${id}-g`, { scale: 1, filter: 'brightness(1)', svgOrigin: `${nodeMap[id].tx} ${nodeMap[id].ty}`, duration: 0.4, overwrite: true });
-          }
-        });
-
-        hoveredIds.current = newHovered;
-      });
+      introPlayed.current = true;
     };
 
-    document.addEventListener('mousemove', onMouseMove);
+    // Already on screen: prerendered, or the intro has played (or was skipped for reduced motion)
+    if (isHydrating() || introPlayed.current) {
+      startBreathing();
+    } else {
+      // --- Initial state: all at target position, invisible, zero-radius ---
+      allNodes.forEach(n => {
+        gsap.set(`#${n.id}-dot`,  { attr: { cx: n.tx, cy: n.ty, r: 0 }, opacity: 0 });
+        gsap.set(`#${n.id}-ring`, { attr: { cx: n.tx, cy: n.ty, r: 0 }, opacity: 0 });
+      });
+      allEdges.forEach(e => gsap.set(`#${e.id}`, { opacity: 0 }));
+
+      // --- Nodes: pulse in by noisy distance-from-center order ---
+      sortedEntries.forEach(({ node: n, idx }) => {
+        const d = nodeDelayMap.get(n.id)!;
+        const vibrant = vibrantSet.has(n.id);
+        const settled = settledNodes.get(n.id)!;
+        const ringPeakOpacity = (vibrant ? 0.6 : 0.25) + 0.2;
+
+        const dur = 0.4 + srand(idx * 11 + 5) * 0.25;
+        const rippleDur = dur * 0.45;
+        const settleDur = dur * 0.55;
+        const rippleScale = vibrant ? 3.2 : 2.5;
+
+        tl.to(`#${n.id}-dot`, {
+          attr: { r: settled.dotR }, opacity: settled.dotOpacity,
+          duration: dur, ease: 'back.out(3)',
+        }, d);
+
+        tl.to(`#${n.id}-ring`, {
+          attr: { r: settled.ringR * rippleScale }, opacity: ringPeakOpacity,
+          duration: rippleDur, ease: 'power2.out',
+        }, d);
+        tl.to(`#${n.id}-ring`, {
+          attr: { r: settled.ringR }, opacity: settled.ringOpacity,
+          duration: settleDur, ease: 'power2.inOut',
+        }, d + rippleDur);
+      });
+
+      // --- Edges: appear shortly after both connecting nodes ---
+      allEdges.forEach((e, i) => {
+        const srcD = nodeDelayMap.get(e.src) ?? 0;
+        const tgtD = nodeDelayMap.get(e.tgt) ?? 0;
+        const edgeDelay = Math.max(srcD, tgtD) + 0.1 + srand(i * 19 + 7) * 0.12;
+        tl.to(`#${e.id}`, { opacity: settledEdgeOpacity.get(e.id), duration: 0.5 }, edgeDelay);
+      });
+
+      tl.call(startBreathing, [], 3.2);
+    }
+
+    const stopProximity = followPointerProximity(() => svgRef.current, allNodes, {
+      margin: 80,
+      radius: HOVER_RADIUS,
+      scale: HOVER_SCALE,
+      brightness: HOVER_BRIGHTNESS,
+      isActive: () => introDone.current,
+    });
 
     return () => {
-      document.removeEventListener('mousemove', onMouseMove);
+      stopProximity();
       tl.kill();
       breathTweens.current.forEach(tw => tw.kill());
       breathTweens.current = [];
+      introDone.current = false;
     };
-  }, []);
+  }, [reducedMotion]);
 
   return (
     <svg
@@ -378,6 +364,19 @@ export default function HeroBloom() {
       style={{ overflow: 'visible' }}
       aria-hidden="true"
     >
+      <HeroBloomArt />
+    </svg>
+  );
+}
+
+/**
+ * The settled flower without any animation, for a 1000×1000 viewBox. Also drawn
+ * into the build's Open Graph images (OgImage.tsx), where CSS variables
+ * don't resolve — hence `palette`.
+ */
+export function HeroBloomArt({ palette = PALETTE_VARS }: { palette?: Palette }) {
+  return (
+    <>
       <defs>
         <filter id="bloom-glow" x="-80%" y="-80%" width="260%" height="260%">
           <feGaussianBlur stdDeviation="4" result="blur" />
@@ -398,36 +397,39 @@ export default function HeroBloom() {
               id={e.id}
               x1={s.tx} y1={s.ty}
               x2={t.tx} y2={t.ty}
-              stroke="var(--color-edge)"
+              stroke={palette.edge}
               strokeWidth={1.2}
               strokeLinecap="round"
-              opacity={0}
+              opacity={settledEdgeOpacity.get(e.id)}
             />
           );
         })}
       </g>
 
       <g>
-        {allNodes.map(n => (
-          <g key={n.id} id={`${n.id}-g`}>
-            <circle
-              id={`${n.id}-ring`}
-              cx={n.tx} cy={n.ty} r={0}
-              fill="none"
-              stroke={n.color}
-              strokeWidth={1}
-              opacity={0}
-            />
-            <circle
-              id={`${n.id}-dot`}
-              cx={n.tx} cy={n.ty} r={0}
-              fill={n.color}
-              filter="url(#bloom-glow)"
-              opacity={0}
-            />
-          </g>
-        ))}
+        {allNodes.map(n => {
+          const settled = settledNodes.get(n.id)!;
+          return (
+            <g key={n.id} id={`${n.id}-g`}>
+              <circle
+                id={`${n.id}-ring`}
+                cx={n.tx} cy={n.ty} r={settled.ringR}
+                fill="none"
+                stroke={palette.categories[n.category]}
+                strokeWidth={1}
+                opacity={settled.ringOpacity}
+              />
+              <circle
+                id={`${n.id}-dot`}
+                cx={n.tx} cy={n.ty} r={settled.dotR}
+                fill={palette.categories[n.category]}
+                filter="url(#bloom-glow)"
+                opacity={settled.dotOpacity}
+              />
+            </g>
+          );
+        })}
       </g>
-    </svg>
+    </>
   );
 }
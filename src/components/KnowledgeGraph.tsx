@@ -5,7 +5,8 @@
  *
  *  Layer 1 — D3 force simulation
  *    Gives every node Obsidian-like physics: nodes repel each other,
- *    edges act as springs, and users can drag nodes freely.
+ *    edges act as springs, and users can drag nodes freely — with a mouse,
+ *    pen or finger, several fingers at once.
  *    D3 owns: node <g> transform,  edge line x1/y1/x2/y2  (position)
  *
  *  Layer 2 — GSAP scroll animations
@@ -13,13 +14,34 @@
  *    GSAP owns: fill, stroke, r, opacity, stroke-dashoffset  (style/motion)
  *
  *  Because each layer targets different SVG attributes they never conflict.
+ *
+ *  The graph to draw — topics, connections, the known set — comes in as a
+ *  prop (DEFAULT_GRAPH from data/graphData.ts, built from JSON).
+ *
+ *  GSAP writes concrete colours, which CSS can't re-theme: when the theme
+ *  changes, the current phase is rebuilt from the new palette and jumped
+ *  to its end state. The same happens when the motion preference changes.
+ *
+ *  Keyboard: the graph is one tab stop; the arrow keys move focus along an
+ *  edge to the connected node that lies most in that direction. A focused
+ *  node gets the same emphasis tween as a hovered one.
+ *
+ *  Touch: a finger on a node drags it (touch-action: none) while the rest
+ *  of the graph still scrolls the page; tapping a node pulses its ring.
+ *  Nodes drift toward a finger only while it's down.
+ *
+ *  Reduced motion: the layout is settled before the first paint, nodes don't
+ *  drift toward the cursor, and phases jump to their end state (see
+ *  graphAnimations.ts). Dragging still works — it's the visitor's own motion.
  */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import GraphCanvas from './GraphCanvas';
-import { GRAPH_NODES, GRAPH_EDGES } from '../data/graphData';
 import { toAmbient, toDiagnostic, toLearning, toSolidify } from '../animations/graphAnimations';
-import type { GraphPhase } from '../data/graphTypes';
+import type { Graph, GraphPhase } from '../data/graphTypes';
+import { useTheme } from '../lib/theme';
+import { prefersReducedMotion, useReducedMotion } from '../lib/motion';
+import { neighbours } from '../lib/graphA11y';
 import {
   forceSimulation,
   forceLink,
@@ -28,8 +50,6 @@ import {
   forceCollide,
 } from 'd3-force';
 import type { SimulationNodeDatum, SimulationLinkDatum } from 'd3-force';
-import { drag } from 'd3-drag';
-import { select } from 'd3-selection';
 
 interface SimNode extends SimulationNodeDatum {
   id: string;
@@ -41,27 +61,50 @@ interface SimEdge extends SimulationLinkDatum<SimNode> {
 }
 
 interface Props {
+  /** Keep it stable (e.g. DEFAULT_GRAPH): a new graph restarts the layout */
+  graph: Graph;
   phase: GraphPhase;
 }
 
-export default function KnowledgeGraph({ phase }: Props) {
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowRight: [1, 0],
+  ArrowLeft:  [-1, 0],
+  ArrowUp:    [0, -1],
+  ArrowDown:  [0, 1],
+};
+
+/** Pointer travel (px) under which a press counts as a tap, not a drag */
+const TAP_SLOP = 6;
+
+const PHASE_ANIMATIONS: Record<GraphPhase, (graph: Graph) => gsap.core.Timeline> = {
+  ambient:    toAmbient,
+  diagnostic: toDiagnostic,
+  learning:   toLearning,
+  solidify:   toSolidify,
+};
+
+export default function KnowledgeGraph({ graph, phase }: Props) {
   const containerRef = useRef<HTMLDivElement>(null);
   const timelineRef  = useRef<{ kill: () => void } | null>(null);
   const prevPhaseRef = useRef<GraphPhase>('ambient');
+  const { theme } = useTheme();
+  const reducedMotion = useReducedMotion();
+  const styleRef     = useRef({ theme, reducedMotion });
+  const [activeId, setActiveId] = useState(graph.nodes[0].id);
 
-  // ── D3 force simulation (mount only) ───────────────────────────────────────
+  // ── D3 force simulation (per graph) ────────────────────────────────────────
   useEffect(() => {
     const svgEl = containerRef.current?.querySelector<SVGSVGElement>('svg') ?? null;
 
     // Mutable copies — D3 writes x/y/vx/vy directly on these objects
-    const simNodes: SimNode[] = GRAPH_NODES.map(n => ({
+    const simNodes: SimNode[] = graph.nodes.map(n => ({
       id: n.id,
       category: n.category,
       x: n.x,
       y: n.y,
     }));
 
-    const simEdges: SimEdge[] = GRAPH_EDGES.map(e => ({
+    const simEdges: SimEdge[] = graph.edges.map(e => ({
       edgeId: e.id,
       source: e.source,
       target: e.target,
@@ -82,7 +125,7 @@ export default function KnowledgeGraph({ phase }: Props) {
       .alphaDecay(0.04); // settles in ~60 ticks (~1.5 s)
 
     // Tick: push D3-computed positions straight into the DOM
-    sim.on('tick', () => {
+    const render = () => {
       simNodes.forEach(node => {
         // Clamp inside the SVG viewport
         node.x = Math.max(55, Math.min(685, node.x!));
@@ -103,19 +146,28 @@ export default function KnowledgeGraph({ phase }: Props) {
         el.setAttribute('x2', String(Math.round(tgt.x ?? 0)));
         el.setAttribute('y2', String(Math.round(tgt.y ?? 0)));
       });
-    });
+    };
+    sim.on('tick', render);
+
+    // Reduced motion: run those ticks now, so the layout never visibly shifts
+    if (prefersReducedMotion()) {
+      sim.stop().tick(60);
+      render();
+    }
 
     // ── Cursor attraction force ─────────────────────────────────────────────
-    // Nodes gently drift toward the mouse when it's over the graph area,
+    // Nodes gently drift toward the pointer when it's over the graph area,
     // signalling the graph is interactive before the user even hovers a node.
+    // A mouse or pen attracts while hovering; a finger only while it's down,
+    // and the browser cancels it once the page starts scrolling.
     let cursorX = 0;
     let cursorY = 0;
-    let cursorActive = false;
+    let cursorId: number | null = null;   // the pointer being followed
     const ATTRACT_STRENGTH = 0.15;
     const ATTRACT_RADIUS   = 200;   // only affects nodes within this distance
 
     function cursorForce(alpha: number) {
-      if (!cursorActive) return;
+      if (cursorId === null || prefersReducedMotion()) return;
       simNodes.forEach(node => {
         // Skip nodes being dragged (they have fx/fy set)
         if (node.fx != null) return;
@@ -131,154 +183,251 @@ export default function KnowledgeGraph({ phase }: Props) {
     }
     sim.force('cursor', cursorForce);
 
-    const onMouseMove = (e: MouseEvent) => {
+    const followPointer = (e: PointerEvent) => {
       if (!svgEl) return;
       const [sx, sy] = clientToSVG(svgEl, e);
       cursorX = sx;
       cursorY = sy;
-      if (!cursorActive) {
-        cursorActive = true;
-      }
+      cursorId = e.pointerId;
       // Keep the simulation warm so it responds
-      if (sim.alpha() < 0.05) sim.alpha(0.05).restart();
+      if (sim.alpha() < 0.05 && !prefersReducedMotion()) sim.alpha(0.05).restart();
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+      if (e.pointerType === 'touch' && e.pointerId !== cursorId) return;
+      followPointer(e);
     };
 
-    const onMouseLeave = () => {
-      cursorActive = false;
+    const onPointerDown = (e: PointerEvent) => {
+      if (e.pointerType === 'touch' && cursorId === null) followPointer(e);
     };
 
-    svgEl?.addEventListener('mousemove', onMouseMove);
-    svgEl?.addEventListener('mouseleave', onMouseLeave);
+    const onPointerEnd = (e: PointerEvent) => {
+      if (e.pointerId === cursorId) cursorId = null;
+    };
+
+    // Every listener below goes when the effect is cleaned up, so a remount
+    // (StrictMode, or a new graph) never leaves handlers driving a stopped sim
+    const listeners = new AbortController();
+    const { signal } = listeners;
+
+    svgEl?.addEventListener('pointermove', onPointerMove, { signal });
+    svgEl?.addEventListener('pointerdown', onPointerDown, { signal });
+    svgEl?.addEventListener('pointerup', onPointerEnd, { signal });
+    svgEl?.addEventListener('pointercancel', onPointerEnd, { signal });
+    svgEl?.addEventListener('pointerleave', onPointerEnd, { signal });
 
     // ── Drag behaviour + hover effects ──────────────────────────────────────
+    let activeDrags = 0;   // one per finger — several nodes can be dragged at once
+
     if (svgEl) {
       simNodes.forEach(simNode => {
         const groupEl = document.getElementById(`node-${simNode.id}`) as SVGGElement | null;
         if (!groupEl) return;
 
         groupEl.style.cursor = 'grab';
+        // A finger on a node drags it; anywhere else it scrolls the page
+        groupEl.style.touchAction = 'none';
 
-        // Hover: scale bump on dot + ring expansion/brightening
+        // Hover / focus: scale bump on dot + ring expansion/brightening
         let hoverTween: gsap.core.Timeline | null = null;
         const dotEl  = `#node-${simNode.id}-dot`;
         const ringEl = `#node-${simNode.id}-ring`;
+        let hovered = false;
+        let focused = false;
+        let emphasised = false;
 
-        groupEl.addEventListener('mouseenter', () => {
+        const setEmphasis = (on: boolean) => {
+          if (on === emphasised) return;
+          emphasised = on;
           hoverTween?.kill();
           const currentR = parseFloat(
-            document.querySelector(dotEl)?.getAttribute('r') ?? '7'
+            document.querySelector(dotEl)?.getAttribute('r') ?? (on ? '7' : '10')
           );
           const currentRingR = parseFloat(
-            document.querySelector(ringEl)?.getAttribute('r') ?? '13'
+            document.querySelector(ringEl)?.getAttribute('r') ?? (on ? '13' : '19')
           );
-          hoverTween = gsap.timeline()
-            .to(dotEl, {
-              attr: { r: currentR + 3 },
-              duration: 0.2,
-              ease: 'back.out(2)',
-            }, 0)
-            .to(ringEl, {
-              attr: { r: currentRingR + 6 },
-              opacity: 0.5,
-              duration: 0.25,
-              ease: 'power2.out',
-            }, 0);
-        });
-
-        groupEl.addEventListener('mouseleave', () => {
-          hoverTween?.kill();
-          const currentR = parseFloat(
-            document.querySelector(dotEl)?.getAttribute('r') ?? '10'
-          );
-          const currentRingR = parseFloat(
-            document.querySelector(ringEl)?.getAttribute('r') ?? '19'
-          );
-          hoverTween = gsap.timeline()
-            .to(dotEl, {
-              attr: { r: Math.max(currentR - 3, 7) },
-              duration: 0.3,
-              ease: 'power2.inOut',
-            }, 0)
-            .to(ringEl, {
-              attr: { r: Math.max(currentRingR - 6, 13) },
-              opacity: 0.15,
-              duration: 0.35,
-              ease: 'power2.inOut',
-            }, 0);
-        });
-
-        const dragBehavior = drag<SVGGElement, unknown>()
-          .on('start', (event) => {
-            if (!event.active) sim.alphaTarget(0.3).restart();
-            simNode.fx = simNode.x;
-            simNode.fy = simNode.y;
-            groupEl.style.cursor = 'grabbing';
-          })
-          .on('drag', (event) => {
-            const [sx, sy] = clientToSVG(svgEl, event.sourceEvent as MouseEvent | TouchEvent);
-            simNode.fx = Math.max(55, Math.min(685, sx));
-            simNode.fy = Math.max(45, Math.min(455, sy));
-          })
-          .on('end', (event) => {
-            if (!event.active) sim.alphaTarget(0);
-            simNode.fx = null;
-            simNode.fy = null;
-            groupEl.style.cursor = 'grab';
-          });
-
-        select(groupEl).call(dragBehavior);
+          hoverTween = on
+            ? gsap.timeline()
+              .to(dotEl, {
+                attr: { r: currentR + 3 },
+                duration: 0.2,
+                ease: 'back.out(2)',
+              }, 0)
+              .to(ringEl, {
+                attr: { r: currentRingR + 6 },
+                opacity: 0.5,
+                duration: 0.25,
+                ease: 'power2.out',
+              }, 0)
+            : gsap.timeline()
+              .to(dotEl, {
+                attr: { r: Math.max(currentR - 3, 7) },
+                duration: 0.3,
+                ease: 'power2.inOut',
+              }, 0)
+              .to(ringEl, {
+                attr: { r: Math.max(currentRingR - 6, 13) },
+                opacity: 0.15,
+                duration: 0.35,
+                ease: 'power2.inOut',
+              }, 0);
+        };
+
+        // Touch gets the tap pulse instead: a finger "hovers" only while it's down
+        groupEl.addEventListener('pointerenter', (e) => {
+          if (e.pointerType === 'touch') return;
+          hovered = true;
+          setEmphasis(true);
+        }, { signal });
+        groupEl.addEventListener('pointerleave', (e) => {
+          if (e.pointerType === 'touch') return;
+          hovered = false;
+          setEmphasis(focused);
+        }, { signal });
+        groupEl.addEventListener('focus', () => {
+          // Keyboard focus only — a click or tap focuses the node too
+          focused = groupEl.matches(':focus-visible');
+          setEmphasis(focused || hovered);
+          setActiveId(simNode.id);
+        }, { signal });
+        groupEl.addEventListener('blur', () => { focused = false; setEmphasis(hovered); }, { signal });
+
+        groupEl.addEventListener('keydown', (e) => {
+          const direction = ARROW_DIRECTIONS[e.key];
+          if (!direction) return;
+          e.preventDefault();
+          const next = neighbourInDirection(graph, simNode, direction, simNodes);
+          if (next) document.getElementById(`node-${next.id}`)?.focus();
+        }, { signal });
+
+        // Tap (touch or pen): the ring flares once and settles back
+        let pulseTween: gsap.core.Timeline | null = null;
+        const pulse = () => {
+          if (prefersReducedMotion()) return;
+          pulseTween?.progress(1).kill();
+          const ringR = parseFloat(document.querySelector(ringEl)?.getAttribute('r') ?? '13');
+          const ringOpacity = gsap.getProperty(ringEl, 'opacity');
+          pulseTween = gsap.timeline()
+            .to(ringEl, { attr: { r: ringR + 12 }, opacity: 0.55, duration: 0.25, ease: 'power2.out' })
+            .to(ringEl, { attr: { r: ringR }, opacity: ringOpacity, duration: 0.5, ease: 'power2.inOut' });
+        };
+
+        // Drag with any pointer, captured so it follows off the node
+        let dragId: number | null = null;
+        let downAt: [number, number] = [0, 0];
+        let moved = false;
+
+        groupEl.addEventListener('pointerdown', (e) => {
+          if (dragId !== null || (e.pointerType === 'mouse' && e.button !== 0)) return;
+          dragId = e.pointerId;
+          downAt = [e.clientX, e.clientY];
+          moved = false;
+          groupEl.setPointerCapture(e.pointerId);
+          if (activeDrags++ === 0) sim.alphaTarget(0.3).restart();
+          simNode.fx = simNode.x;
+          simNode.fy = simNode.y;
+          groupEl.style.cursor = 'grabbing';
+        }, { signal });
+
+        groupEl.addEventListener('pointermove', (e) => {
+          if (e.pointerId !== dragId) return;
+          if (Math.hypot(e.clientX - downAt[0], e.clientY - downAt[1]) > TAP_SLOP) moved = true;
+          const [sx, sy] = clientToSVG(svgEl, e);
+          simNode.fx = Math.max(55, Math.min(685, sx));
+          simNode.fy = Math.max(45, Math.min(455, sy));
+        }, { signal });
+
+        const endDrag = (e: PointerEvent) => {
+          if (e.pointerId !== dragId) return;
+          dragId = null;
+          if (--activeDrags === 0) sim.alphaTarget(0);
+          simNode.fx = null;
+          simNode.fy = null;
+          groupEl.style.cursor = 'grab';
+          if (e.type === 'pointerup' && !moved && e.pointerType !== 'mouse') pulse();
+        };
+        groupEl.addEventListener('pointerup', endDrag, { signal });
+        groupEl.addEventListener('pointercancel', endDrag, { signal });
       });
     }
 
-    // Start GSAP ambient phase
-    timelineRef.current = toAmbient();
+    // Start GSAP ambient phase; the phase effect below takes it on from there
+    prevPhaseRef.current = 'ambient';
+    timelineRef.current = toAmbient(graph);
 
     return () => {
       sim.stop();
-      svgEl?.removeEventListener('mousemove', onMouseMove);
-      svgEl?.removeEventListener('mouseleave', onMouseLeave);
+      listeners.abort();
       timelineRef.current?.kill();
     };
-  }, []);
+  }, [graph]);
 
   // ── Scroll-phase changes → GSAP animation ─────────────────────────────────
   useEffect(() => {
     if (phase === prevPhaseRef.current) return;
     timelineRef.current?.kill();
     prevPhaseRef.current = phase;
+    timelineRef.current = PHASE_ANIMATIONS[phase](graph);
+  }, [phase, graph]);
 
-    switch (phase) {
-      case 'diagnostic': timelineRef.current = toDiagnostic(); break;
-      case 'learning':   timelineRef.current = toLearning();   break;
-      case 'solidify':   timelineRef.current = toSolidify();   break;
-      default:           timelineRef.current = toAmbient();    break;
-    }
-  }, [phase]);
+  // ── Theme / motion preference changes → redo the current phase ────────────
+  useEffect(() => {
+    const prev = styleRef.current;
+    if (theme === prev.theme && reducedMotion === prev.reducedMotion) return;
+    styleRef.current = { theme, reducedMotion };
+    timelineRef.current?.kill();
+    const tl = PHASE_ANIMATIONS[prevPhaseRef.current](graph);
+    tl.progress(1);
+    timelineRef.current = tl;
+  }, [theme, reducedMotion, graph]);
 
   return (
     <div ref={containerRef} className="w-full h-full">
-      <GraphCanvas nodes={GRAPH_NODES} edges={GRAPH_EDGES} />
+      <GraphCanvas graph={graph} phase={phase} activeId={activeId} />
     </div>
   );
 }
 
-// ── Helper ─────────────────────────────────────────────────────────────────────
+// ── Helpers ────────────────────────────────────────────────────────────────────
 
-/** Convert a client-space mouse/touch event to SVG viewBox coordinates */
+/**
+ * The node connected to `from` that lies most in `direction` (within 90° of
+ * it), by current — possibly dragged — positions. Null if there is none.
+ */
+function neighbourInDirection(
+  graph: Graph,
+  from: SimNode,
+  [dirX, dirY]: [number, number],
+  simNodes: SimNode[],
+): SimNode | null {
+  let best: SimNode | null = null;
+  let bestCos = 0;
+  for (const { id } of neighbours(graph, from.id)) {
+    const node = simNodes.find(n => n.id === id);
+    if (!node) continue;
+    const dx = node.x! - from.x!;
+    const dy = node.y! - from.y!;
+    const cos = (dx * dirX + dy * dirY) / (Math.hypot(dx, dy) || 1);
+    if (cos > bestCos) {
+      best = node;
+      bestCos = cos;
+    }
+  }
+  return best;
+}
+
+/**
+ * Convert a pointer's client position to SVG viewBox coordinates. Each
+ * finger is its own PointerEvent, so multi-touch needs no special casing.
+ */
 function clientToSVG(
   svg: SVGSVGElement,
-  event: MouseEvent | TouchEvent,
+  { clientX, clientY }: PointerEvent,
 ): [number, number] {
   const ctm = svg.getScreenCTM();
   if (!ctm) return [0, 0];
 
-  const clientX = event instanceof TouchEvent
-    ? (event.touches[0]?.clientX ?? event.changedTouches[0]?.clientX ?? 0)
-    : event.clientX;
-  const clientY = event instanceof TouchEvent
-    ? (event.touches[0]?.clientY ?? event.changedTouches[0]?.clientY ?? 0)
-    : event.clientY;
-
   const pt = svg.createSVGPoint();
   pt.x = clientX;
   pt.y = clientY;
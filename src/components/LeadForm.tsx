@@ -1,299 +1,426 @@
 /**
  * LeadForm.tsx — progressive-reveal waitlist modal
  *
- * Flow:
+ * Flow (defined as data in data/leadFormSteps.ts):
  *   1. Name + Email
  *   2. Medical student or Junior doctor?
  *   3. University
  *   4. Where in degree? (skipped for junior doctors)
  *   5. "Get started now" (beta) vs "Wait until ready"
+ *   6. Consent to contact, linking the privacy policy
+ *   7. Review — every answer with an edit link, and the submit button
  *
  * Each step appears only after the previous one is completed,
- * keeping the form feeling small and conversational.
+ * keeping the form feeling small and conversational. The step engine
+ * (lib/formSteps.ts) decides what is revealed; this component only renders
+ * fields by type. Answers are saved as a draft (lib/leadDraft.ts), so
+ * closing the modal or reloading the page doesn't lose them until the user
+ * submits or starts over.
  *
- * Submits to Supabase Edge Function 'add-waitlist'.
+ * Submits to the Worker route POST /api/waitlist (worker/waitlist.ts),
+ * which emails a confirmation link — the sign-up stays pending until the
+ * link is opened on /confirm (pages/ConfirmPage.tsx). The response carries
+ * the sign-up's referral code and queue position, shown under the success
+ * panel (ReferralShare.tsx); a code captured from `?ref=` (lib/referral.ts)
+ * is sent along with the answers, as is the session's first-touch
+ * attribution (lib/attribution.ts). Step completions and submit outcomes
+ * are reported to lib/analytics.ts for the funnel.
+ * If the request can't get through, the sign-up is saved to the local
+ * retry queue (lib/waitlistQueue.ts) and shown as "queued", not failed.
+ *
+ * The modal itself — focus, Escape, scroll lock — is Dialog.tsx. A status
+ * region announces each newly revealed step, the review panel, "Joining..."
+ * and the outcome; a submit error is an alert.
  */
 
 import { useState, useEffect, useRef } from 'react';
-import { supabase } from '../lib/supabase';
-
-const AUSTRALIAN_MED_SCHOOLS = [
-  'Australian National University (ANU)',
-  'Bond University',
-  'Curtin University',
-  'Deakin University',
-  'Flinders University',
-  'Griffith University',
-  'James Cook University',
-  'Macquarie University',
-  'Monash University',
-  'University of Adelaide',
-  'University of Melbourne',
-  'University of Newcastle',
-  'University of New South Wales (UNSW)',
-  'University of Notre Dame – Fremantle',
-  'University of Notre Dame – Sydney',
-  'University of Queensland',
-  'University of Sydney',
-  'University of Tasmania',
-  'University of Western Australia',
-  'University of Wollongong',
-  'Western Sydney University',
-  'Other',
-];
-
-const LEVELS = [
-  { value: 'Pre-clinical', label: 'Pre-clinical', desc: 'Years 1–2, foundational sciences' },
-  { value: 'Clinical', label: 'Clinical', desc: 'Years 3+, hospital rotations' },
-  { value: 'Graduate', label: 'Graduate entry', desc: 'Accelerated / post-grad pathway' },
-];
+import { joinWaitlist, WaitlistError } from '../lib/api';
+import type { QueueStanding } from '../lib/api';
+import { validateSubmission } from '../lib/waitlist';
+import { enqueueSubmission, isRetryable } from '../lib/waitlistQueue';
+import { clearDraft, loadDraft, saveDraft } from '../lib/leadDraft';
+import { getReferralCode } from '../lib/referral';
+import { getAttribution } from '../lib/attribution';
+import { track } from '../lib/analytics';
+import { scrollBehavior } from '../lib/motion';
+import {
+  applyAnswer,
+  applyDefaults,
+  isFormComplete,
+  isStepComplete,
+  revealedSteps,
+  summarise,
+} from '../lib/formSteps';
+import type { Answers, FieldDef, FieldValue } from '../lib/formSteps';
+import { LEAD_FORM_STEPS, answersToSubmission } from '../data/leadFormSteps';
+import Dialog from './Dialog';
+import SuccessPanel from './SuccessPanel';
+import ReferralShare from './ReferralShare';
 
 interface Props {
   isOpen: boolean;
   onClose: () => void;
+  /** Answers to preselect once their step applies (e.g. university on /u/<slug>) */
+  defaults?: Answers;
 }
 
-export default function LeadForm({ isOpen, onClose }: Props) {
-  const [name, setName] = useState('');
-  const [email, setEmail] = useState('');
-  const [role, setRole] = useState<'student' | 'junior' | ''>('');
-  const [university, setUniversity] = useState('');
-  const [level, setLevel] = useState('');
-  const [beta, setBeta] = useState<boolean | null>(null);
+export default function LeadForm({ isOpen, onClose, defaults = {} }: Props) {
+  const [answers, setAnswers] = useState<Answers>(() => loadDraft() ?? {});
+  // A restored draft that was already complete reopens on the review panel
+  const [reviewing, setReviewing] = useState(() => isFormComplete(LEAD_FORM_STEPS, answers));
+  const [editingStep, setEditingStep] = useState<string | null>(null);
 
   const [submitted, setSubmitted] = useState(false);
+  const [queued, setQueued] = useState(false);
+  const [standing, setStanding] = useState<QueueStanding | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState('');
+  // The newest change a screen reader should hear about: a revealed step, the review, the result
+  const [announcement, setAnnouncement] = useState('');
+
+  // Steps already reported to analytics, so re-editing one doesn't count twice
+  const trackedSteps = useRef(new Set<string>());
 
   const bottomRef = useRef<HTMLDivElement>(null);
+  const stepsRef = useRef<HTMLDivElement>(null);
+
+  const steps = revealedSteps(LEAD_FORM_STEPS, answers);
+  const isComplete = isFormComplete(LEAD_FORM_STEPS, answers);
+  const hasAnswers = Object.values(answers).some(v => v !== null && v !== '');
 
   // Auto-scroll to bottom when new fields appear
   useEffect(() => {
-    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
-  }, [role, university, level, beta]);
+    bottomRef.current?.scrollIntoView({ behavior: scrollBehavior(), block: 'nearest' });
+  }, [steps.length, isComplete, reviewing]);
+
+  // "Edit" from the review panel: bring that step into view and focus its first control
+  useEffect(() => {
+    if (reviewing || !editingStep) return;
+    const stepEl = stepsRef.current?.querySelector<HTMLElement>(`[data-step="${editingStep}"]`);
+    stepEl?.scrollIntoView({ behavior: scrollBehavior(), block: 'center' });
+    stepEl?.querySelector<HTMLElement>('input, select, button')?.focus({ preventScroll: true });
+    setEditingStep(null);
+  }, [reviewing, editingStep]);
+
+  // Keep the draft in sync with every answer until the form is submitted
+  useEffect(() => {
+    if (!submitted) saveDraft(answers);
+  }, [answers, submitted]);
+
+  function resetForm() {
+    setAnswers({});
+    setReviewing(false);
+    setSubmitted(false);
+    setQueued(false);
+    setStanding(null);
+    trackedSteps.current.clear();
+    setSubmitError('');
+    setAnnouncement('');
+  }
 
   function handleClose() {
     if (isSubmitting) return;
     onClose();
-    setTimeout(() => {
-      setName('');
-      setEmail('');
-      setRole('');
-      setUniversity('');
-      setLevel('');
-      setBeta(null);
-      setSubmitted(false);
-      setSubmitError('');
-    }, 350);
+    // Unsubmitted answers stay put so the form resumes where it left off
+    if (submitted) setTimeout(resetForm, 350);
+  }
+
+  function startOver() {
+    clearDraft();
+    resetForm();
+  }
+
+  function setAnswer(field: FieldDef, value: FieldValue) {
+    // applyAnswer also clears any later answers that depended on this one;
+    // preselected answers fill in as their steps become applicable
+    const next = applyDefaults(LEAD_FORM_STEPS, applyAnswer(LEAD_FORM_STEPS, answers, field.name, value), defaults);
+    setAnswers(next);
+
+    const revealed = revealedSteps(LEAD_FORM_STEPS, next);
+    if (revealed.length > steps.length) {
+      const newest = revealed[revealed.length - 1];
+      setAnnouncement(`Next question: ${newest.label ?? newest.fields[0].label}`);
+    }
+
+    // Funnel analytics: report each revealed step the first time it is completed
+    revealed.forEach((step, index) => {
+      if (trackedSteps.current.has(step.id) || !isStepComplete(step, next)) return;
+      trackedSteps.current.add(step.id);
+      track('lead_step_completed', { step: step.id, index });
+    });
+
+    // Answering the final step moves on to the review panel
+    const finalStep = LEAD_FORM_STEPS[LEAD_FORM_STEPS.length - 1];
+    if (finalStep.fields.includes(field) && isFormComplete(LEAD_FORM_STEPS, next)) {
+      review();
+    }
   }
 
-  const isValidEmail = /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
-  const hasIdentity = !!name.trim() && isValidEmail;
-  const hasRole = !!role;
-  const hasUniversity = !!university;
-  const hasLevel = role === 'junior' || !!level;
-  const isComplete = beta !== null;
+  function review() {
+    setReviewing(true);
+    setAnnouncement('Check your answers before joining.');
+  }
 
-  async function submit() {
+  function editStep(stepId: string) {
+    setSubmitError('');
+    setReviewing(false);
+    setEditingStep(stepId);
+  }
+
+  async function submit(final: Answers) {
     setIsSubmitting(true);
     setSubmitError('');
 
+    const result = validateSubmission(answersToSubmission(final, {
+      ref: getReferralCode(),
+      attribution: getAttribution(),
+    }));
+
     try {
-      const { error } = await supabase.functions.invoke('add-waitlist', {
-        body: {
-          lister_name: name.trim(),
-          lister_email: email.trim(),
-          lister_university: university || 'N/A',
-          lister_level: role === 'junior' ? 'Junior doctor' : level,
-          lister_why: '',
-          lister_beta: beta === true,
-        },
-      });
+      if (!result.ok) throw new WaitlistError('invalid', result.errors);
 
-      if (error) throw error;
+      setStanding(await joinWaitlist(result.value));
+      track('lead_submit_succeeded', { beta: result.value.lister_beta });
+      clearDraft();
+      setAnnouncement('Check your inbox for a confirmation link.');
       setSubmitted(true);
     } catch (err) {
       console.error('Waitlist submission error:', err);
-      setSubmitError("Something went wrong — please try again or email us directly.");
+
+      // Transient failure: keep the answers on this device and retry later
+      const savedForRetry = result.ok && isRetryable(err) && enqueueSubmission(result.value);
+      track('lead_submit_failed', {
+        reason: err instanceof WaitlistError ? err.code : 'unknown',
+        queued: savedForRetry,
+      });
+
+      if (savedForRetry) {
+        clearDraft();
+        setAnnouncement("You're queued. Your sign-up will be sent when you're back online.");
+        setQueued(true);
+        setSubmitted(true);
+        return;
+      }
+
+      setSubmitError(
+        err instanceof WaitlistError && err.code === 'duplicate'
+          ? "That email is already on the list — we'll be in touch."
+          : "Something went wrong — please try again or email us directly."
+      );
     } finally {
       setIsSubmitting(false);
     }
   }
 
-  // Auto-submit when final choice is made
-  useEffect(() => {
-    if (isComplete && !submitted && !isSubmitting) {
-      submit();
-    }
-  }, [beta]);
-
-  if (!isOpen) return null;
+  const startOverButton = hasAnswers && !submitted && (
+    <button
+      type="button"
+      onClick={startOver}
+      disabled={isSubmitting}
+      className="px-2 h-7 rounded-lg text-caption text-muted hover:text-primary hover:bg-primary/5 transition-colors"
+    >
+      Start over
+    </button>
+  );
 
   return (
-    <div
-      className="fixed inset-0 z-50 flex items-center justify-center p-4"
-      onClick={e => { if (e.target === e.currentTarget) handleClose(); }}
-    >
-      <div className="absolute inset-0 bg-black/30 backdrop-blur-sm" />
+    <Dialog isOpen={isOpen} onClose={handleClose} title="Get Early Access" actions={startOverButton}>
+      {/* Read out as the form changes under a screen reader's cursor */}
+      <p className="sr-only" role="status">{isSubmitting ? 'Joining the waitlist...' : announcement}</p>
 
-      <div className="relative w-full max-w-[440px] bg-surface border border-primary/10 rounded-2xl shadow-2xl overflow-hidden">
-        {/* Header */}
-        <div className="flex items-start justify-between px-6 pt-5 pb-4 border-b border-primary/5">
-          <div>
-            <h3 className="text-body font-bold text-primary">Get Early Access</h3>
-          </div>
-          <button
-            onClick={handleClose}
-            aria-label="Close"
-            className="w-7 h-7 flex items-center justify-center rounded-lg text-muted hover:text-primary hover:bg-primary/5 transition-colors"
-          >
-            &#10005;
-          </button>
-        </div>
+      {/* Body */}
+      <div className="px-6 py-5 max-h-[70vh] overflow-y-auto">
 
-        {/* Body */}
-        <div className="px-6 py-5 max-h-[70vh] overflow-y-auto">
-
-          {submitted ? (
-            <div className="py-6 text-center">
-              <div className="w-12 h-12 rounded-full bg-success/10 border border-success/25 flex items-center justify-center mx-auto mb-4">
-                <span className="text-success text-xl">&#10003;</span>
-              </div>
-              <h4 className="text-body-lg font-bold text-primary mb-2">You're on the list.</h4>
-              <p className="text-body-sm text-muted max-w-xs mx-auto">
-                {beta
-                  ? "We'll be in touch soon with beta access. Thanks for helping shape Bloomed."
-                  : "We'll email you when Bloomed is ready. Keep studying — we're building something great."}
-              </p>
-              <button onClick={handleClose} className="btn-primary mt-6 mx-auto text-body-sm px-5 py-2.5">
-                Close
-              </button>
-            </div>
-          ) : (
-            <div className="space-y-4">
-
-              {/* Step 1: Name + Email */}
-              <div className="space-y-3">
-                <input
-                  type="text"
-                  placeholder="Your name"
-                  autoFocus
-                  value={name}
-                  onChange={e => setName(e.target.value)}
-                  className="form-input text-body-sm"
-                />
-                <input
-                  type="email"
-                  placeholder="your@email.com"
-                  value={email}
-                  onChange={e => setEmail(e.target.value)}
-                  className="form-input text-body-sm"
-                />
-              </div>
-
-              {/* Step 2: Role — appears after name + email */}
-              {hasIdentity && (
-                <FadeIn>
-                  <label className="block text-caption font-medium text-muted mb-2">I am a...</label>
-                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                    <ChoiceButton
-                      label="Medical Student"
-                      selected={role === 'student'}
-                      onClick={() => { setRole('student'); setLevel(''); }}
-                    />
-                    <ChoiceButton
-                      label="Junior Doctor"
-                      selected={role === 'junior'}
-                      onClick={() => { setRole('junior'); setLevel(''); }}
-                    />
+        {submitted ? (
+          <>
+            <SuccessPanel
+              title={queued ? "You're queued." : 'Check your inbox.'}
+              action={
+                <button onClick={handleClose} className="btn-primary text-body-sm px-5 py-2.5">
+                  Close
+                </button>
+              }
+            >
+              {queued
+                ? "We couldn't reach our server, so your sign-up is saved on this device. We'll send it automatically as soon as you're back online."
+                : `We've sent a confirmation link to ${answers.email}. Click it to secure your spot on the list.`}
+            </SuccessPanel>
+            {standing && <ReferralShare standing={standing} beta={answers.beta === true} />}
+          </>
+        ) : reviewing && isComplete ? (
+          <div className="space-y-4">
+            <p className="text-caption font-medium text-muted">Check your answers</p>
+
+            <dl className="border border-primary/[0.08] rounded-xl divide-y divide-primary/[0.06]">
+              {summarise(LEAD_FORM_STEPS, answers).map(item => (
+                <div key={item.field.name} className="flex items-start justify-between gap-4 px-4 py-3">
+                  <div className="min-w-0">
+                    <dt className="text-caption text-muted">{item.field.label}</dt>
+                    <dd className="text-body-sm font-medium text-primary break-words">{item.display}</dd>
                   </div>
-                </FadeIn>
-              )}
-
-              {/* Step 3: University — appears after role (students only) */}
-              {hasRole && role === 'student' && (
-                <FadeIn>
-                  <label className="block text-caption font-medium text-muted mb-1.5">University</label>
-                  <select
-                    value={university}
-                    onChange={e => setUniversity(e.target.value)}
-                    className="form-input text-body-sm cursor-pointer"
-                    style={{
-                      appearance: 'none',
-                      backgroundImage: 'url("data:image/svg+xml,%3Csvg xmlns=\'http://www.w3.org/2000/svg\' width=\'12\' height=\'12\' viewBox=\'0 0 24 24\' fill=\'none\' stroke=\'%2378756e\' stroke-width=\'2\'%3E%3Cpolyline points=\'6 9 12 15 18 9\'%3E%3C/polyline%3E%3C/svg%3E")',
-                      backgroundRepeat: 'no-repeat',
-                      backgroundPosition: 'right 14px center',
-                    }}
+                  <button
+                    type="button"
+                    onClick={() => editStep(item.stepId)}
+                    disabled={isSubmitting}
+                    aria-label={`Edit ${item.field.label.toLowerCase()}`}
+                    className="shrink-0 text-caption font-medium text-accent hover:underline"
                   >
-                    <option value="">Select your university...</option>
-                    {AUSTRALIAN_MED_SCHOOLS.map(school => (
-                      <option key={school} value={school}>{school}</option>
-                    ))}
-                  </select>
-                </FadeIn>
-              )}
-
-              {/* Step 4: Degree level — appears after university, skipped for junior doctors */}
-              {hasUniversity && role === 'student' && (
-                <FadeIn>
-                  <label className="block text-caption font-medium text-muted mb-2">Where are you in your degree?</label>
-                  <div className="space-y-1.5">
-                    {LEVELS.map(lvl => (
-                      <ChoiceButton
-                        key={lvl.value}
-                        label={lvl.label}
-                        desc={lvl.desc}
-                        selected={level === lvl.value}
-                        onClick={() => setLevel(lvl.value)}
-                        full
-                      />
-                    ))}
-                  </div>
-                </FadeIn>
-              )}
-
-              {/* Step 5: Beta preference — appears when everything above is done */}
-              {((role === 'junior') || (hasLevel && hasUniversity)) && (
-                <FadeIn>
-                  <label className="block text-caption font-medium text-muted mb-2">How would you like to join?</label>
-                  <div className="space-y-2">
-                    <ChoiceButton
-                      label="I'd like to get started now"
-                      desc="You'll get early beta access and we'll ask for feedback as we build."
-                      selected={beta === true}
-                      onClick={() => setBeta(true)}
-                      full
-                    />
-                    <ChoiceButton
-                      label="I'd rather wait until it's ready"
-                      desc="We'll email you when Bloomed is ready to share."
-                      selected={beta === false}
-                      onClick={() => setBeta(false)}
-                      full
+                    Edit
+                  </button>
+                </div>
+              ))}
+            </dl>
+
+            {submitError && <p role="alert" className="text-caption text-danger">{submitError}</p>}
+
+            <button
+              type="button"
+              onClick={() => submit(answers)}
+              disabled={isSubmitting}
+              className="btn-primary w-full justify-center text-body-sm"
+            >
+              {isSubmitting ? 'Joining...' : 'Join the waitlist'}
+            </button>
+
+            <div ref={bottomRef} />
+          </div>
+        ) : (
+          <div ref={stepsRef} className="space-y-4">
+
+            {steps.map(step => (
+              <FadeIn key={step.id} step={step.id}>
+                {step.label && (
+                  <label className="block text-caption font-medium text-muted mb-2">{step.label}</label>
+                )}
+                <div className="space-y-3">
+                  {step.fields.map(field => (
+                    <Field
+                      key={field.name}
+                      field={field}
+                      value={answers[field.name] ?? null}
+                      onChange={value => setAnswer(field, value)}
                     />
-                  </div>
-                  {submitError && <p className="text-caption text-danger mt-2">{submitError}</p>}
-                  {isSubmitting && (
-                    <p className="text-caption text-muted mt-2 text-center">Joining...</p>
-                  )}
-                </FadeIn>
-              )}
+                  ))}
+                </div>
+              </FadeIn>
+            ))}
 
-              <div ref={bottomRef} />
-            </div>
-          )}
+            {isComplete && (
+              <button
+                type="button"
+                onClick={review}
+                className="btn-primary w-full justify-center text-body-sm"
+              >
+                Review answers
+              </button>
+            )}
+
+            <div ref={bottomRef} />
+          </div>
+        )}
 
-        </div>
       </div>
-    </div>
+    </Dialog>
   );
 }
 
 // -- Helper components --
 
-function FadeIn({ children }: { children: React.ReactNode }) {
+const SELECT_CHEVRON =
+  'url("data:image/svg+xml,%3Csvg xmlns=\'http://www.w3.org/2000/svg\' width=\'12\' height=\'12\' viewBox=\'0 0 24 24\' fill=\'none\' stroke=\'%2378756e\' stroke-width=\'2\'%3E%3Cpolyline points=\'6 9 12 15 18 9\'%3E%3C/polyline%3E%3C/svg%3E")';
+
+/** Renders a single field definition with the form's existing input styles */
+function Field({
+  field,
+  value,
+  onChange,
+}: {
+  field: FieldDef;
+  value: FieldValue;
+  onChange: (value: FieldValue) => void;
+}) {
+  switch (field.type) {
+    case 'text':
+    case 'email':
+      return (
+        <input
+          type={field.type}
+          placeholder={field.placeholder}
+          aria-label={field.label}
+          autoFocus={field.autoFocus}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value)}
+          className="form-input text-body-sm"
+        />
+      );
+
+    case 'select':
+      return (
+        <select
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value)}
+          aria-label={field.label}
+          className="form-input text-body-sm cursor-pointer"
+          style={{
+            appearance: 'none',
+            backgroundImage: SELECT_CHEVRON,
+            backgroundRepeat: 'no-repeat',
+            backgroundPosition: 'right 14px center',
+          }}
+        >
+          <option value="">{field.placeholder}</option>
+          {field.options.map(opt => (
+            <option key={String(opt.value)} value={String(opt.value)}>{opt.label}</option>
+          ))}
+        </select>
+      );
+
+    case 'choice': {
+      const full = field.layout === 'list';
+      return (
+        <div role="group" aria-label={field.label} className={full ? 'space-y-2' : 'grid grid-cols-1 sm:grid-cols-2 gap-2'}>
+          {field.options.map(opt => (
+            <ChoiceButton
+              key={String(opt.value)}
+              label={opt.label}
+              desc={opt.desc}
+              selected={value === opt.value}
+              onClick={() => onChange(opt.value)}
+              full={full}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    case 'checkbox':
+      return (
+        <label className="flex items-start gap-3 px-4 py-3 rounded-xl border-2 border-primary/[0.08] cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value === true}
+            onChange={e => onChange(e.target.checked ? true : null)}
+            className="mt-0.5 w-4 h-4 shrink-0 accent-accent cursor-pointer"
+          />
+          <span className="text-body-sm text-primary">
+            {field.text}
+            {field.link && (
+              <>
+                {' '}
+                <a href={field.link.href} target="_blank" rel="noopener" className="underline text-muted hover:text-primary">
+                  {field.link.label}
+                </a>
+              </>
+            )}
+          </span>
+        </label>
+      );
+  }
+}
+
+function FadeIn({ children, step }: { children: React.ReactNode; step?: string }) {
   return (
-    <div className="animate-fade-in">
+    <div className="animate-fade-in" data-step={step}>
       {children}
     </div>
   );
@@ -316,6 +443,7 @@ function ChoiceButton({
     <button
       type="button"
       onClick={onClick}
+      aria-pressed={selected}
       className={`${full ? 'w-full text-left' : ''} px-4 py-3 rounded-xl border-2 transition-all duration-150 cursor-pointer ${
         selected
           ? 'border-accent bg-accent/5'
@@ -0,0 +1,46 @@
+/**
+ * LegalPage.tsx — shared layout for the privacy policy and terms pages.
+ *
+ * Each page passes its copy as sections of plain paragraphs, so the legal
+ * text stays easy to diff and review.
+ */
+
+import { useHead } from '../lib/head';
+
+export interface LegalSection {
+  heading: string;
+  body: string[];
+}
+
+interface Props {
+  title: string;
+  /** Meta description */
+  description: string;
+  path: string;
+  version: string;
+  sections: readonly LegalSection[];
+}
+
+export default function LegalPage({ title, description, path, version, sections }: Props) {
+  useHead({ title: `${title} — Bloomed`, description, path });
+
+  return (
+    <main className="min-h-screen px-6 sm:px-8 pt-28 lg:pt-32 pb-16">
+      <div className="max-w-2xl mx-auto">
+        <h1 className="text-h2 font-bold text-primary mb-2">{title}</h1>
+        <p className="text-caption text-muted mb-10">Version {version}</p>
+
+        <div className="space-y-8">
+          {sections.map(section => (
+            <section key={section.heading}>
+              <h2 className="text-body-lg font-bold text-primary mb-2">{section.heading}</h2>
+              {section.body.map((paragraph, i) => (
+                <p key={i} className="text-body-sm text-muted leading-relaxed mb-3">{paragraph}</p>
+              ))}
+            </section>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
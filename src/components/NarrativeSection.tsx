@@ -12,13 +12,21 @@
  *   2. useEffect creates a GSAP ScrollTrigger for each step.
  *   3. When a step enters the viewport centre, setPhase() is called.
  *   4. `phase` is passed as a prop to KnowledgeGraph.
- *   5. KnowledgeGraph runs the appropriate animation when phase changes.
+ *   5. KnowledgeGraph runs the appropriate animation when phase changes,
+ *      and a live region tells screen readers what the graph now shows.
+ *
+ * With reduced motion the steps don't fade in; the phase triggers still
+ * fire (the graph then jumps between phase end states).
  */
 
 import { useRef, useState, useEffect } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
 import KnowledgeGraph from './KnowledgeGraph';
+import { track } from '../lib/analytics';
+import { useReducedMotion } from '../lib/motion';
+import { phaseAnnouncement } from '../lib/graphA11y';
+import { DEFAULT_GRAPH } from '../data/graphData';
 import type { GraphPhase } from '../data/graphTypes';
 
 gsap.registerPlugin(ScrollTrigger);
@@ -60,9 +68,15 @@ const PHASES: {
 export default function NarrativeSection() {
   const [phase, setPhase] = useState<GraphPhase>('ambient');
   const stepRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const reducedMotion = useReducedMotion();
+
+  useEffect(() => {
+    if (phase !== 'ambient') track('narrative_phase_entered', { phase });
+  }, [phase]);
 
   useEffect(() => {
     const triggers: ScrollTrigger[] = [];
+    const fades: gsap.core.Tween[] = [];
 
     stepRefs.current.forEach((step, i) => {
       if (!step) return;
@@ -78,8 +92,8 @@ export default function NarrativeSection() {
       triggers.push(trigger);
 
       const content = step.querySelector('.step-content');
-      if (content) {
-        gsap.fromTo(
+      if (content && !reducedMotion) {
+        fades.push(gsap.fromTo(
           content,
           { opacity: 0, y: 40 },
           {
@@ -93,14 +107,15 @@ export default function NarrativeSection() {
               toggleActions: 'play none none reverse',
             },
           }
-        );
+        ));
       }
     });
 
     return () => {
       triggers.forEach(t => t.kill());
+      fades.forEach(t => t.revert());
     };
-  }, []);
+  }, [reducedMotion]);
 
   return (
     <section className="relative">
@@ -164,9 +179,9 @@ export default function NarrativeSection() {
                     phase === 'diagnostic'
                       ? 'radial-gradient(circle, var(--color-accent), transparent 70%)'
                       : phase === 'learning'
-                      ? 'radial-gradient(circle, #f97316, transparent 70%)'
+                      ? 'radial-gradient(circle, var(--color-learning), transparent 70%)'
                       : phase === 'solidify'
-                      ? 'radial-gradient(circle, #30a46c, transparent 70%)'
+                      ? 'radial-gradient(circle, var(--color-success), transparent 70%)'
                       : 'radial-gradient(circle, var(--color-accent), transparent 70%)',
                 }}
               />
@@ -181,8 +196,11 @@ export default function NarrativeSection() {
                 '--color-label': 'rgba(255, 255, 255, 0.6)',
               } as React.CSSProperties}
             >
-              <KnowledgeGraph phase={phase} />
+              <KnowledgeGraph graph={DEFAULT_GRAPH} phase={phase} />
             </div>
+
+            {/* Inside the desktop-only panel, so it's silent when the graph isn't shown */}
+            <p className="sr-only" aria-live="polite">{phaseAnnouncement(DEFAULT_GRAPH, phase)}</p>
           </div>
 
         </div>
@@ -1,4 +1,7 @@
 import { useState, useEffect } from 'react';
+import { Link, useLocation } from '../lib/router';
+import { scrollBehavior } from '../lib/motion';
+import ThemeToggle from './ThemeToggle';
 
 interface Props {
   onOpenForm: () => void;
@@ -6,6 +9,7 @@ interface Props {
 
 export default function Nav({ onOpenForm }: Props) {
   const [scrolled, setScrolled] = useState(false);
+  const { pathname } = useLocation();
 
   useEffect(() => {
     const onScroll = () => setScrolled(window.scrollY > 60);
@@ -21,23 +25,35 @@ export default function Nav({ onOpenForm }: Props) {
           : 'bg-transparent'
       }`}
     >
-      <a href="#" className="flex items-center gap-2" onClick={(e) => { e.preventDefault(); window.scrollTo({ top: 0, behavior: 'smooth' }); }}>
+      <Link
+        to="/"
+        className="flex items-center gap-2"
+        onClick={(e) => {
+          // Already home: glide back to the top instead of re-navigating
+          if (pathname !== '/') return;
+          e.preventDefault();
+          window.scrollTo({ top: 0, behavior: scrollBehavior() });
+        }}
+      >
         <img src="/logo.png" alt="Bloomed" className="h-8 w-auto" />
         <span className="font-accent italic font-bold text-h3 gradient-text">Bloomed</span>
-      </a>
+      </Link>
 
       <div className="flex items-center gap-2 sm:gap-3">
         <div className="hidden lg:block">
-          <button
-            onClick={() => document.getElementById('faq')?.scrollIntoView({ behavior: 'smooth' })}
+          {/* The router scrolls to #faq after navigating, from any page */}
+          <Link
+            to="/#faq"
             className="btn-ghost text-body-sm py-[13px]"
-            style={{ background: 'rgba(26, 50, 224, 0.10)', borderColor: 'rgba(26, 50, 224, 0.25)' }}
+            style={{ background: 'rgb(var(--color-brand-rgb) / 0.10)', borderColor: 'rgb(var(--color-brand-rgb) / 0.25)' }}
           >
             FAQ
-          </button>
+          </Link>
         </div>
 
-        <button onClick={onOpenForm} className="btn-primary text-body-sm" style={{ backgroundColor: '#1a32e0' }}>
+        <ThemeToggle />
+
+        <button onClick={onOpenForm} className="btn-primary btn-brand text-body-sm">
           <span className="hidden sm:inline">Get Early Access</span>
           <span className="sm:hidden">Join</span>
         </button>
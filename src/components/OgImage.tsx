@@ -0,0 +1,93 @@
+/**
+ * OgImage.tsx — the 1200×630 Open Graph card for a page, as SVG.
+ *
+ * Rendered to a string by entry-server.tsx and rasterised with sharp in
+ * scripts/prerender.mjs — never mounted in the browser. The renderer only
+ * understands plain SVG, so colours are literal values rather than the CSS
+ * variables the site uses, and the title is wrapped by hand.
+ */
+
+import type { OgArt } from '../lib/head';
+import { LIGHT_PALETTE } from '../lib/palette';
+import { SITE_NAME, SITE_URL } from '../lib/site';
+import { HeroBloomArt } from './HeroBloom';
+import { AustraliaBloomArt } from './CtaAustraliaBloom';
+
+export const OG_WIDTH = 1200;
+export const OG_HEIGHT = 630;
+
+const BACKGROUND = '#f5f2eb';
+const TEXT = '#2c2a26';
+const MUTED = '#78756e';
+const BRAND = '#1a32e0';
+/** LIGHT_PALETTE, with edges a little stronger at thumbnail size */
+const ART_PALETTE = { ...LIGHT_PALETTE, edge: 'rgba(44, 42, 38, 0.25)' };
+
+const SANS = 'Inter, Helvetica, Arial, sans-serif';
+const SERIF = "'Playfair Display', Georgia, serif";
+
+const TITLE_SIZE = 56;
+const TITLE_LINE_HEIGHT = 66;
+/** Roughly what fits left of the artwork at TITLE_SIZE */
+const MAX_LINE_CHARS = 17;
+const MAX_LINES = 4;
+
+/** Greedy word wrap; the last line gets an ellipsis if the title runs over */
+function wrapTitle(title: string): string[] {
+  const lines: string[] = [];
+  for (const word of title.split(/\s+/)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && `${last} ${word}`.length <= MAX_LINE_CHARS) lines[lines.length - 1] = `${last} ${word}`;
+    else lines.push(word);
+  }
+  if (lines.length <= MAX_LINES) return lines;
+  return [...lines.slice(0, MAX_LINES - 1), `${lines[MAX_LINES - 1]}…`];
+}
+
+/** Page titles carry the site name for tabs and search results; the card already shows the wordmark */
+function cardTitle(title: string): string {
+  return title.replace(new RegExp(`^${SITE_NAME} — | — ${SITE_NAME}$`), '');
+}
+
+interface Props {
+  title: string;
+  art: OgArt;
+  /** Logo image (a data: URL — the renderer won't fetch) */
+  logoHref: string;
+}
+
+export default function OgImage({ title, art, logoHref }: Props) {
+  const lines = wrapTitle(cardTitle(title));
+  const titleTop = 330 - ((lines.length - 1) * TITLE_LINE_HEIGHT) / 2;
+
+  return (
+    <svg xmlns="http://www.w3.org/2000/svg" width={OG_WIDTH} height={OG_HEIGHT} viewBox={`0 0 ${OG_WIDTH} ${OG_HEIGHT}`}>
+      <rect width={OG_WIDTH} height={OG_HEIGHT} fill={BACKGROUND} />
+
+      {art === 'australia' ? (
+        <svg x={640} y={60} width={540} height={510} viewBox="0 0 900 700" preserveAspectRatio="xMidYMid meet">
+          <AustraliaBloomArt palette={ART_PALETTE} />
+        </svg>
+      ) : (
+        <svg x={660} y={0} width={630} height={630} viewBox="0 0 1000 1000" opacity={0.75}>
+          <HeroBloomArt palette={ART_PALETTE} />
+        </svg>
+      )}
+
+      <image href={logoHref} x={80} y={64} width={64} height={64} />
+      <text x={156} y={112} fill={BRAND} fontFamily={SERIF} fontStyle="italic" fontWeight={700} fontSize={44}>
+        {SITE_NAME}
+      </text>
+
+      <text fill={TEXT} fontFamily={SANS} fontWeight={600} fontSize={TITLE_SIZE}>
+        {lines.map((line, i) => (
+          <tspan key={i} x={80} y={titleTop + i * TITLE_LINE_HEIGHT}>{line}</tspan>
+        ))}
+      </text>
+
+      <text x={80} y={566} fill={MUTED} fontFamily={SANS} fontWeight={500} fontSize={26}>
+        {new URL(SITE_URL).host}
+      </text>
+    </svg>
+  );
+}
@@ -1,6 +1,8 @@
 import { useEffect, useCallback } from 'react';
+import type { CSSProperties } from 'react';
 import { gsap } from 'gsap';
 import { ScrollTrigger } from 'gsap/ScrollTrigger';
+import { prefersReducedMotion, useReducedMotion } from '../lib/motion';
 
 gsap.registerPlugin(ScrollTrigger);
 
@@ -33,49 +35,64 @@ CARD_TRANSFORMS[2].rotate = 10;
 // Order in which cards appear on scroll (seemingly random)
 const REVEAL_ORDER = [2, 5, 0, 4, 1, 3];
 
+const DESKTOP_QUERY = '(min-width: 1024px)';
+
+function isDesktop(): boolean {
+  return window.matchMedia(DESKTOP_QUERY).matches;
+}
+
+// Desktop tilt for the first frame, in CSS so the prerendered markup matches every viewport
+const TILT_CLASS = 'lg:[transform:rotate(var(--tilt))_translate(var(--tilt-x),var(--tilt-y))]';
+
 export default function PainPoints() {
-  const isDesktop = () => window.matchMedia('(min-width: 1024px)').matches;
+  const reducedMotion = useReducedMotion();
 
   useEffect(() => {
-    const title = document.querySelector('.pain-title');
-    if (title) {
-      gsap.fromTo(title, { opacity: 0, y: 30 }, {
-        opacity: 1, y: 0, duration: 0.8, ease: 'power3.out',
-        scrollTrigger: { trigger: title, start: 'top 85%', toggleActions: 'play none none reverse' },
-      });
-    }
-
-    const desktop = isDesktop();
-    const items = document.querySelectorAll('.pain-item');
-    items.forEach((item, i) => {
-      const { rotate, offsetX, offsetY } = CARD_TRANSFORMS[i];
-      const r = desktop ? rotate : 0;
-      const ox = desktop ? offsetX : 0;
-      const oy = desktop ? offsetY : 0;
-      gsap.fromTo(
-        item,
-        { opacity: 0, x: ox, y: oy + 40, rotate: r, scale: 0.95 },
-        {
-          opacity: 1,
-          x: ox,
-          y: oy,
-          rotate: r,
-          scale: 1,
-          duration: 0.7,
-          ease: 'power3.out',
-          scrollTrigger: {
-            trigger: '.pain-row',
-            start: 'top 85%',
-            toggleActions: 'play none none none',
+    // Reduced motion: cards are simply there, tilted by TILT_CLASS
+    if (reducedMotion) return;
+
+    const ctx = gsap.context(() => {
+      const title = document.querySelector('.pain-title');
+      if (title) {
+        gsap.fromTo(title, { opacity: 0, y: 30 }, {
+          opacity: 1, y: 0, duration: 0.8, ease: 'power3.out',
+          scrollTrigger: { trigger: title, start: 'top 85%', toggleActions: 'play none none reverse' },
+        });
+      }
+
+      const desktop = isDesktop();
+      const items = document.querySelectorAll('.pain-item');
+      items.forEach((item, i) => {
+        const { rotate, offsetX, offsetY } = CARD_TRANSFORMS[i];
+        const r = desktop ? rotate : 0;
+        const ox = desktop ? offsetX : 0;
+        const oy = desktop ? offsetY : 0;
+        gsap.fromTo(
+          item,
+          { opacity: 0, x: ox, y: oy + 40, rotate: r, scale: 0.95 },
+          {
+            opacity: 1,
+            x: ox,
+            y: oy,
+            rotate: r,
+            scale: 1,
+            duration: 0.7,
+            ease: 'power3.out',
+            scrollTrigger: {
+              trigger: '.pain-row',
+              start: 'top 85%',
+              toggleActions: 'play none none none',
+            },
+            delay: REVEAL_ORDER.indexOf(i) * 0.12,
           },
-          delay: REVEAL_ORDER.indexOf(i) * 0.12,
-        },
-      );
+        );
+      });
     });
-  }, []);
+    return () => ctx.revert();
+  }, [reducedMotion]);
 
   const handleEnter = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
-    if (!window.matchMedia('(min-width: 1024px)').matches) return;
+    if (!isDesktop()) return;
     gsap.to(e.currentTarget, {
       opacity: 1,
       rotate: 0,
@@ -84,14 +101,14 @@ export default function PainPoints() {
       scale: 1.55,
       zIndex: 10,
       boxShadow: '0 12px 40px rgba(0,0,0,0.12)',
-      duration: 0.35,
+      duration: prefersReducedMotion() ? 0 : 0.35,
       ease: 'back.out(1.4)',
       overwrite: true,
     });
   }, []);
 
   const handleLeave = useCallback((e: React.MouseEvent<HTMLDivElement>, i: number) => {
-    if (!window.matchMedia('(min-width: 1024px)').matches) return;
+    if (!isDesktop()) return;
     const { rotate, offsetX, offsetY } = CARD_TRANSFORMS[i];
     gsap.to(e.currentTarget, {
       opacity: 1,
@@ -101,7 +118,7 @@ export default function PainPoints() {
       scale: 1,
       zIndex: 0,
       boxShadow: '0 0px 0px rgba(0,0,0,0)',
-      duration: 0.45,
+      duration: prefersReducedMotion() ? 0 : 0.45,
       ease: 'power2.inOut',
       overwrite: true,
     });
@@ -120,13 +137,13 @@ export default function PainPoints() {
           return (
             <div
               key={i}
-              className={`pain-item relative px-6 py-9 lg:px-6 lg:py-6 lg:w-60 lg:min-w-[15rem] lg:flex-shrink-0 rounded-2xl border border-primary/[0.06] bg-surface/60 cursor-default ${hiddenOnMobile ? 'hidden lg:block' : ''}`}
+              className={`pain-item relative px-6 py-9 lg:px-6 lg:py-6 lg:w-60 lg:min-w-[15rem] lg:flex-shrink-0 rounded-2xl border border-primary/[0.06] bg-surface/60 cursor-default ${TILT_CLASS} ${hiddenOnMobile ? 'hidden lg:block' : ''}`}
               style={{
-                transform: isDesktop()
-                  ? `rotate(${rotate}deg) translate(${offsetX}px, ${offsetY}px)`
-                  : undefined,
+                '--tilt': `${rotate}deg`,
+                '--tilt-x': `${offsetX}px`,
+                '--tilt-y': `${offsetY}px`,
                 willChange: 'transform',
-              }}
+              } as CSSProperties}
               onMouseEnter={handleEnter}
               onMouseLeave={(e) => handleLeave(e, i)}
             >
@@ -0,0 +1,68 @@
+/**
+ * ReferralShare.tsx — queue position and share link for a sign-up.
+ *
+ * Shown under the success panel in LeadForm and on /confirm. Every confirmed
+ * sign-up made through the link moves the sharer up their queue.
+ */
+
+import { useState } from 'react';
+import type { QueueStanding } from '../lib/api';
+import { shareLink } from '../lib/referral';
+
+interface Props {
+  standing: QueueStanding;
+  beta: boolean;
+}
+
+export default function ReferralShare({ standing, beta }: Props) {
+  const [copied, setCopied] = useState(false);
+  const link = shareLink(standing.referralCode);
+  const canShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      // Clipboard blocked — the link is still selectable in the input
+    }
+  }
+
+  function share() {
+    navigator.share({ title: 'Bloomed', text: 'Join me on the Bloomed waitlist', url: link }).catch(() => {});
+  }
+
+  if (!standing.referralCode) return null;
+
+  return (
+    <div className="mt-2 border border-primary/[0.08] rounded-xl px-4 py-4 text-left">
+      {standing.position !== null && standing.total !== null && (
+        <p className="text-body-sm text-primary mb-1">
+          You're <span className="font-bold">#{standing.position}</span> of {standing.total} in the{' '}
+          {beta ? 'beta' : 'launch'} queue.
+        </p>
+      )}
+      <p className="text-caption text-muted mb-3">
+        Share your link — every friend who confirms their spot moves you up.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <input
+          readOnly
+          value={link}
+          aria-label="Your referral link"
+          onFocus={e => e.currentTarget.select()}
+          className="form-input flex-1 min-w-0 text-caption"
+        />
+        <button
+          type="button"
+          onClick={canShare ? share : copy}
+          className="shrink-0 px-3 py-2 rounded-lg text-caption font-medium text-primary border border-primary/10 hover:bg-primary/5 transition-colors"
+        >
+          {canShare ? 'Share' : copied ? 'Copied' : 'Copy'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * SuccessPanel.tsx — the green-tick confirmation panel.
+ *
+ * Used by LeadForm's submitted state and the /confirm page so both
+ * "you're in" moments look the same.
+ */
+
+interface Props {
+  title: string;
+  children: React.ReactNode;
+  action?: React.ReactNode;
+}
+
+export default function SuccessPanel({ title, children, action }: Props) {
+  return (
+    <div className="py-6 text-center">
+      <div className="w-12 h-12 rounded-full bg-success/10 border border-success/25 flex items-center justify-center mx-auto mb-4">
+        <span className="text-success text-xl">&#10003;</span>
+      </div>
+      <h4 className="text-body-lg font-bold text-primary mb-2">{title}</h4>
+      <p className="text-body-sm text-muted max-w-xs mx-auto">{children}</p>
+      {action && <div className="mt-6 flex justify-center">{action}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * ThemeToggle.tsx — Nav button cycling the colour theme:
+ * system → light → dark → system. The icon shows the current mode.
+ */
+
+import { THEME_MODES, useTheme } from '../lib/theme';
+import type { ThemeMode } from '../lib/theme';
+
+const LABELS: Record<ThemeMode, string> = {
+  light: 'Light',
+  dark: 'Dark',
+  system: 'System',
+};
+
+function nextMode(mode: ThemeMode): ThemeMode {
+  return THEME_MODES[(THEME_MODES.indexOf(mode) + 1) % THEME_MODES.length];
+}
+
+function ModeIcon({ mode }: { mode: ThemeMode }) {
+  const common = {
+    width: 16, height: 16, viewBox: '0 0 16 16', fill: 'none',
+    stroke: 'currentColor', strokeWidth: 1.5, strokeLinecap: 'round', strokeLinejoin: 'round',
+    'aria-hidden': true,
+  } as const;
+
+  if (mode === 'light') {
+    return (
+      <svg {...common}>
+        <circle cx="8" cy="8" r="3" />
+        <path d="M8 1.5v1.5M8 13v1.5M1.5 8H3M13 8h1.5M3.4 3.4l1.06 1.06M11.54 11.54l1.06 1.06M3.4 12.6l1.06-1.06M11.54 4.46l1.06-1.06" />
+      </svg>
+    );
+  }
+  if (mode === 'dark') {
+    return (
+      <svg {...common}>
+        <path d="M13.5 9.5A5.5 5.5 0 0 1 6.5 2.5a5.5 5.5 0 1 0 7 7z" />
+      </svg>
+    );
+  }
+  return (
+    <svg {...common}>
+      <rect x="1.75" y="2.5" width="12.5" height="8.5" rx="1.5" />
+      <path d="M5.5 14h5M8 11v3" />
+    </svg>
+  );
+}
+
+export default function ThemeToggle() {
+  const { mode, setMode } = useTheme();
+  const next = nextMode(mode);
+
+  return (
+    <button
+      type="button"
+      onClick={() => setMode(next)}
+      className="btn-ghost btn-icon"
+      aria-label={`Theme: ${LABELS[mode]}. Switch to ${LABELS[next].toLowerCase()}`}
+      title={`Theme: ${LABELS[mode]}`}
+    >
+      <ModeIcon mode={mode} />
+    </button>
+  );
+}
@@ -1,14 +1,32 @@
-export type NodeCategory = 'foundational' | 'pathological' | 'clinical' | 'specialty';
+/**
+ * graphTypes.ts — the knowledge graph's shape.
+ *
+ * The graph itself is data: data/knowledgeGraph.json, checked against these
+ * types by lib/graphSchema.ts when the bundle loads.
+ */
+
+/** The theme's category colours (lib/palette.ts); the blooms cycle through them too */
+export type CategoryColour = 'foundational' | 'pathological' | 'clinical' | 'specialty';
 
 export type GraphPhase = 'ambient' | 'diagnostic' | 'learning' | 'solidify';
 
+export interface GraphCategory {
+  id: string;
+  /** Spoken to screen readers, e.g. "pathological science" */
+  name: string;
+  /** Categories may share a colour */
+  colour: CategoryColour;
+}
+
 export interface GraphNode {
   id: string;
+  /** `\n` splits the label over lines in the SVG */
   label: string;
-  category: NodeCategory;
+  /** A GraphCategory id */
+  category: string;
+  /** Starting position in the 740 × 500 viewBox; the force layout moves it from there */
   x: number;
   y: number;
-  group?: 'known';
 }
 
 export interface GraphEdge {
@@ -16,3 +34,26 @@ export interface GraphEdge {
   source: string;
   target: string;
 }
+
+/** Which topics the student already knows in one telling of the story */
+export interface GraphScenario {
+  id: string;
+  known: string[];
+}
+
+/** data/knowledgeGraph.json */
+export interface GraphDocument {
+  categories: GraphCategory[];
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  /** The first one is shown unless another is asked for */
+  scenarios: GraphScenario[];
+}
+
+/** One scenario of the document, as the canvas, animations and labels use it */
+export interface Graph {
+  categories: ReadonlyMap<string, GraphCategory>;
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  known: ReadonlySet<string>;
+}
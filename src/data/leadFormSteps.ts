@@ -0,0 +1,125 @@
+/**
+ * leadFormSteps.ts — the questions LeadForm asks, in order.
+ *
+ * Adding a question is a config change here: give it a step, a field type
+ * and (if it only applies to some people) a `when` predicate. If it is a
+ * follow-up to another answer, list that answer in `dependsOn` so editing it
+ * from the review summary clears the follow-up. Answers are mapped onto the
+ * waitlist submission in `answersToSubmission` below.
+ */
+
+import type { Answers, FormStep } from '../lib/formSteps';
+import {
+  AUSTRALIAN_MED_SCHOOLS,
+  LEVELS,
+  ROLES,
+  buildSubmission,
+  isValidEmail,
+} from '../lib/waitlist';
+import type { Role, WaitlistAnswers, WaitlistSubmission } from '../lib/waitlist';
+import { PRIVACY_POLICY_PATH, PRIVACY_POLICY_VERSION } from '../lib/site';
+
+const isStudent = (a: Answers) => a.role === 'student';
+
+export const LEAD_FORM_STEPS: readonly FormStep[] = [
+  {
+    id: 'identity',
+    fields: [
+      { name: 'name', label: 'Name', type: 'text', placeholder: 'Your name', autoFocus: true },
+      {
+        name: 'email',
+        label: 'Email',
+        type: 'email',
+        placeholder: 'your@email.com',
+        validate: v => (isValidEmail(String(v)) ? null : 'Enter a valid email address'),
+      },
+    ],
+  },
+  {
+    id: 'role',
+    label: 'I am a...',
+    fields: [{ name: 'role', label: 'Role', type: 'choice', layout: 'grid', options: ROLES }],
+  },
+  {
+    id: 'university',
+    label: 'University',
+    when: isStudent,
+    fields: [
+      {
+        name: 'university',
+        label: 'University',
+        type: 'select',
+        placeholder: 'Select your university...',
+        options: AUSTRALIAN_MED_SCHOOLS.map(school => ({ value: school, label: school })),
+      },
+    ],
+  },
+  {
+    id: 'level',
+    label: 'Where are you in your degree?',
+    when: isStudent,
+    dependsOn: ['role'],
+    fields: [{ name: 'level', label: 'Degree stage', type: 'choice', layout: 'list', options: LEVELS }],
+  },
+  {
+    id: 'beta',
+    label: 'How would you like to join?',
+    fields: [
+      {
+        name: 'beta',
+        label: 'Joining',
+        type: 'choice',
+        layout: 'list',
+        options: [
+          {
+            value: true,
+            label: "I'd like to get started now",
+            desc: "You'll get early beta access and we'll ask for feedback as we build.",
+          },
+          {
+            value: false,
+            label: "I'd rather wait until it's ready",
+            desc: "We'll email you when Bloomed is ready to share.",
+          },
+        ],
+      },
+    ],
+  },
+  {
+    id: 'consent',
+    label: 'Can we keep in touch?',
+    fields: [
+      {
+        name: 'contact',
+        label: 'Contact consent',
+        type: 'checkbox',
+        text: 'I agree to Bloomed storing these details and emailing me about early access. I can ask for them to be deleted at any time.',
+        link: { href: PRIVACY_POLICY_PATH, label: 'Privacy policy' },
+      },
+    ],
+  },
+];
+
+const str = (v: Answers[string] | undefined) => (typeof v === 'string' ? v : '');
+
+/** Context captured outside the form: the referral code and session attribution */
+export type SubmissionContext = Pick<WaitlistAnswers, 'ref' | 'attribution'>;
+
+/**
+ * Map LeadForm answers onto the shared waitlist submission shape. Consent is
+ * timestamped here, i.e. when the person submits with the box ticked.
+ */
+export function answersToSubmission(answers: Answers, context: SubmissionContext = {}): WaitlistSubmission {
+  return buildSubmission({
+    name: str(answers.name),
+    email: str(answers.email),
+    role: str(answers.role) as Role | '',
+    university: str(answers.university),
+    level: str(answers.level),
+    beta: typeof answers.beta === 'boolean' ? answers.beta : null,
+    consent: answers.contact === true
+      ? { at: new Date().toISOString(), policyVersion: PRIVACY_POLICY_VERSION }
+      : null,
+    ...context,
+  });
+}
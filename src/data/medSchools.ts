@@ -0,0 +1,57 @@
+/**
+ * medSchools.ts — Australian medical schools.
+ *
+ * The single source for the LeadForm university list, the waitlist schema
+ * (lib/waitlist.ts) and the per-school landing pages at /u/<slug>.
+ * `name` is what gets stored as lister_university, so don't rename a school
+ * without migrating existing rows. Plain data: also bundled into the Worker.
+ */
+
+export type AustralianState = 'ACT' | 'NSW' | 'NT' | 'QLD' | 'SA' | 'TAS' | 'VIC' | 'WA';
+
+/** 'undergraduate' = direct entry from school; 'graduate' = entry after a first degree */
+export type ProgramType = 'undergraduate' | 'graduate' | 'both';
+
+export interface MedSchoolInfo {
+  /** URL segment for /u/<slug> */
+  slug: string;
+  name: string;
+  /** How students refer to it — used in page copy */
+  shortName: string;
+  state: AustralianState;
+  program: ProgramType;
+}
+
+export const MED_SCHOOLS = [
+  { slug: 'anu',                  name: 'Australian National University (ANU)', shortName: 'ANU',                  state: 'ACT', program: 'graduate' },
+  { slug: 'bond',                 name: 'Bond University',                      shortName: 'Bond',                 state: 'QLD', program: 'undergraduate' },
+  { slug: 'curtin',               name: 'Curtin University',                    shortName: 'Curtin',               state: 'WA',  program: 'undergraduate' },
+  { slug: 'deakin',               name: 'Deakin University',                    shortName: 'Deakin',               state: 'VIC', program: 'graduate' },
+  { slug: 'flinders',             name: 'Flinders University',                  shortName: 'Flinders',             state: 'SA',  program: 'both' },
+  { slug: 'griffith',             name: 'Griffith University',                  shortName: 'Griffith',             state: 'QLD', program: 'graduate' },
+  { slug: 'jcu',                  name: 'James Cook University',                shortName: 'JCU',                  state: 'QLD', program: 'undergraduate' },
+  { slug: 'macquarie',            name: 'Macquarie University',                 shortName: 'Macquarie',            state: 'NSW', program: 'graduate' },
+  { slug: 'monash',               name: 'Monash University',                    shortName: 'Monash',               state: 'VIC', program: 'both' },
+  { slug: 'adelaide',             name: 'University of Adelaide',               shortName: 'Adelaide',             state: 'SA',  program: 'undergraduate' },
+  { slug: 'melbourne',            name: 'University of Melbourne',              shortName: 'Melbourne',            state: 'VIC', program: 'graduate' },
+  { slug: 'newcastle',            name: 'University of Newcastle',              shortName: 'Newcastle',            state: 'NSW', program: 'undergraduate' },
+  { slug: 'unsw',                 name: 'University of New South Wales (UNSW)', shortName: 'UNSW',                 state: 'NSW', program: 'undergraduate' },
+  { slug: 'notre-dame-fremantle', name: 'University of Notre Dame – Fremantle', shortName: 'Notre Dame Fremantle', state: 'WA',  program: 'graduate' },
+  { slug: 'notre-dame-sydney',    name: 'University of Notre Dame – Sydney',    shortName: 'Notre Dame Sydney',    state: 'NSW', program: 'graduate' },
+  { slug: 'uq',                   name: 'University of Queensland',             shortName: 'UQ',                   state: 'QLD', program: 'graduate' },
+  { slug: 'sydney',               name: 'University of Sydney',                 shortName: 'Sydney',               state: 'NSW', program: 'graduate' },
+  { slug: 'utas',                 name: 'University of Tasmania',               shortName: 'UTAS',                 state: 'TAS', program: 'undergraduate' },
+  { slug: 'uwa',                  name: 'University of Western Australia',      shortName: 'UWA',                  state: 'WA',  program: 'graduate' },
+  { slug: 'wollongong',           name: 'University of Wollongong',             shortName: 'Wollongong',           state: 'NSW', program: 'graduate' },
+  { slug: 'western-sydney',       name: 'Western Sydney University',            shortName: 'Western Sydney',       state: 'NSW', program: 'undergraduate' },
+] as const satisfies readonly MedSchoolInfo[];
+
+export type MedSchoolName = typeof MED_SCHOOLS[number]['name'];
+
+export function findSchoolBySlug(slug: string): MedSchoolInfo | null {
+  return MED_SCHOOLS.find(school => school.slug === slug) ?? null;
+}
+
+export function findSchoolByName(name: string): MedSchoolInfo | null {
+  return MED_SCHOOLS.find(school => school.name === name) ?? null;
+}
@@ -0,0 +1,64 @@
+/**
+ * entry-server.tsx — renders a route to an HTML string in Node.
+ *
+ * Built with `vite build --ssr` and driven by scripts/prerender.mjs, which
+ * writes the result into dist/index.html's #root (and the page's head tags
+ * into its <head>) for every path below, plus each page's Open Graph image.
+ * Everything reachable from here must render without window or document;
+ * browser-only work belongs in effects.
+ */
+
+import { StrictMode } from 'react';
+import { renderToStaticMarkup, renderToString } from 'react-dom/server';
+import App from './App';
+import OgImage from './components/OgImage';
+import { hasGeneratedOgImage, HeadProvider, ogImagePath, renderHead } from './lib/head';
+import type { OgArt, PageHead } from './lib/head';
+import { preloadRoute, routePaths } from './lib/router';
+import { NOT_FOUND_PAGE, ROUTES } from './routes';
+
+/** Every path to prerender; anything else is served dist/404.html */
+export const PRERENDER_PATHS = routePaths(ROUTES);
+
+export interface OgImageSpec {
+  /** Site path to write the PNG to, e.g. '/og/u/monash.png' */
+  path: string;
+  title: string;
+  art: OgArt;
+}
+
+export interface RenderResult {
+  html: string;
+  /** <title>, meta and JSON-LD tags from the page's useHead() */
+  head: string;
+  /** The image the head's og:image points at, if the build has to generate it */
+  ogImage: OgImageSpec | null;
+}
+
+export async function render(url: string): Promise<RenderResult> {
+  await preloadRoute(ROUTES, NOT_FOUND_PAGE, new URL(url, 'http://localhost').pathname);
+
+  const collected: { head?: PageHead } = {};
+  const html = renderToString(
+    <StrictMode>
+      <HeadProvider onHead={head => { collected.head = head; }}>
+        <App url={url} />
+      </HeadProvider>
+    </StrictMode>,
+  );
+  const { head } = collected;
+  if (!head) throw new Error(`${url} rendered without calling useHead()`);
+
+  return {
+    html,
+    head: renderHead(head),
+    ogImage: hasGeneratedOgImage(head)
+      ? { path: ogImagePath(head.path), title: head.title, art: head.ogArt ?? 'bloom' }
+      : null,
+  };
+}
+
+/** The Open Graph card as an SVG document, for sharp to rasterise */
+export function renderOgImage(spec: OgImageSpec, logoHref: string): string {
+  return renderToStaticMarkup(<OgImage title={spec.title} art={spec.art} logoHref={logoHref} />);
+}
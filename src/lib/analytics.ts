@@ -0,0 +1,164 @@
+/**
+ * analytics.ts — first-party funnel events.
+ *
+ * `track(event, props)` is typed against AnalyticsEvents below, so adding an
+ * event means adding it there first. Events are batched in memory and
+ * flushed with navigator.sendBeacon to VITE_ANALYTICS_ENDPOINT when the batch
+ * fills, after a short delay, or when the page is hidden.
+ *
+ * Privacy:
+ *   - Nothing is recorded without 'analytics' consent (lib/consent.ts);
+ *     withdrawing it drops anything still buffered.
+ *   - No cookies and no persistent identifiers. Events carry a random id
+ *     that lives in sessionStorage, so a funnel can be followed within one
+ *     visit but not across visits.
+ *   - Do Not Track / Global Privacy Control turn tracking off entirely.
+ *
+ * Transports: 'beacon' in production builds with an endpoint configured,
+ * 'console' in development, and a no-op otherwise.
+ */
+
+import type { WaitlistErrorCode } from './api';
+import type { CtaSource } from './waitlist';
+import type { GraphPhase } from '../data/graphTypes';
+import { hasConsent, onConsentChange } from './consent';
+
+export interface AnalyticsEvents {
+  cta_clicked: { source: CtaSource };
+  lead_step_completed: { step: string; index: number };
+  lead_submit_succeeded: { beta: boolean };
+  /** `queued`: the sign-up was saved for retry rather than lost */
+  lead_submit_failed: { reason: WaitlistErrorCode | 'unknown'; queued: boolean };
+  faq_opened: { index: number; question: string };
+  narrative_phase_entered: { phase: GraphPhase };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEvents;
+
+export interface AnalyticsEvent<E extends AnalyticsEventName = AnalyticsEventName> {
+  event: E;
+  props: AnalyticsEvents[E];
+  /** Milliseconds since the epoch */
+  ts: number;
+  path: string;
+  session: string;
+}
+
+export interface AnalyticsTransport {
+  send(events: AnalyticsEvent[]): void;
+}
+
+const SESSION_KEY = 'bloomed.analyticsSession';
+const MAX_BATCH = 20;
+const FLUSH_DELAY_MS = 5_000;
+
+// ── Transports ──
+
+export function createBeaconTransport(endpoint: string): AnalyticsTransport {
+  return {
+    send(events) {
+      const body = JSON.stringify({ events });
+      // sendBeacon survives page unload; fall back to a keepalive fetch if it's refused
+      if (navigator.sendBeacon?.(endpoint, new Blob([body], { type: 'application/json' }))) return;
+      fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+        keepalive: true,
+        credentials: 'omit',
+      }).catch(() => {});
+    },
+  };
+}
+
+export function createConsoleTransport(): AnalyticsTransport {
+  return {
+    send(events) {
+      for (const e of events) console.debug(`[analytics] ${e.event}`, e.props);
+    },
+  };
+}
+
+const noopTransport: AnalyticsTransport = { send() {} };
+
+function defaultTransport(): AnalyticsTransport {
+  if (import.meta.env.DEV) return createConsoleTransport();
+  const endpoint = import.meta.env.VITE_ANALYTICS_ENDPOINT;
+  return endpoint ? createBeaconTransport(endpoint) : noopTransport;
+}
+
+// ── Pipeline ──
+
+let transport: AnalyticsTransport | null = null;
+let buffer: AnalyticsEvent[] = [];
+let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/** Do Not Track or Global Privacy Control */
+function optedOut(): boolean {
+  const nav = navigator as Navigator & { globalPrivacyControl?: boolean };
+  const win = window as Window & { doNotTrack?: string };
+  return nav.doNotTrack === '1' || win.doNotTrack === '1' || nav.globalPrivacyControl === true;
+}
+
+function sessionId(): string {
+  try {
+    let id = sessionStorage.getItem(SESSION_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      sessionStorage.setItem(SESSION_KEY, id);
+    }
+    return id;
+  } catch {
+    return 'anonymous';
+  }
+}
+
+export function flushEvents(): void {
+  if (flushTimer) {
+    clearTimeout(flushTimer);
+    flushTimer = null;
+  }
+  if (!transport || buffer.length === 0) return;
+  const batch = buffer;
+  buffer = [];
+  transport.send(batch);
+}
+
+/**
+ * Record an event. A no-op until startAnalytics() has run, without analytics
+ * consent, or when the visitor opted out through DNT/GPC.
+ */
+export function track<E extends AnalyticsEventName>(event: E, props: AnalyticsEvents[E]): void {
+  if (!transport || !hasConsent('analytics')) return;
+
+  buffer.push({ event, props, ts: Date.now(), path: window.location.pathname, session: sessionId() });
+
+  if (buffer.length >= MAX_BATCH) flushEvents();
+  else if (!flushTimer) flushTimer = setTimeout(flushEvents, FLUSH_DELAY_MS);
+}
+
+/**
+ * Turn tracking on (unless DNT/GPC is set) and flush whenever the page is
+ * hidden. Call once on app start; returns a cleanup function.
+ */
+export function startAnalytics(custom?: AnalyticsTransport): () => void {
+  if (optedOut()) return () => {};
+
+  transport = custom ?? defaultTransport();
+
+  const onHide = () => { if (document.visibilityState === 'hidden') flushEvents(); };
+  document.addEventListener('visibilitychange', onHide);
+  window.addEventListener('pagehide', flushEvents);
+
+  const unsubscribe = onConsentChange(consent => {
+    if (!consent?.analytics) buffer = [];
+  });
+
+  return () => {
+    unsubscribe();
+    flushEvents();
+    document.removeEventListener('visibilitychange', onHide);
+    window.removeEventListener('pagehide', flushEvents);
+    transport = null;
+  };
+}
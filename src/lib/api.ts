@@ -0,0 +1,131 @@
+/**
+ * api.ts — browser client for the Worker API routes (worker/index.ts).
+ */
+
+import type { SubmissionErrors, WaitlistSubmission } from './waitlist';
+
+export type WaitlistErrorCode =
+  | 'invalid'
+  | 'duplicate'
+  | 'invalid_token'
+  | 'expired_token'
+  | 'not_found'
+  | 'network'
+  | 'server';
+
+export class WaitlistError extends Error {
+  constructor(public code: WaitlistErrorCode, public fields?: SubmissionErrors) {
+    super(`Waitlist request failed: ${code}`);
+    this.name = 'WaitlistError';
+  }
+}
+
+async function request(path: string, init: RequestInit): Promise<Response> {
+  try {
+    return await fetch(path, init);
+  } catch {
+    throw new WaitlistError('network');
+  }
+}
+
+function post(path: string, payload: unknown): Promise<Response> {
+  return request(path, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+}
+
+async function errorFrom(res: Response): Promise<WaitlistError> {
+  const body = await res.json().catch(() => ({})) as { error?: string; fields?: SubmissionErrors };
+  if (res.status === 409) return new WaitlistError('duplicate');
+  if (res.status === 404) return new WaitlistError('not_found');
+  if (res.status === 400) {
+    const code = body.error === 'invalid_token' || body.error === 'expired_token' ? body.error : 'invalid';
+    return new WaitlistError(code, body.fields);
+  }
+  return new WaitlistError('server');
+}
+
+/** A sign-up's share code and where it currently sits in its queue */
+export interface QueueStanding {
+  referralCode: string;
+  /** 1-based; null if the store couldn't place the entry */
+  position: number | null;
+  total: number | null;
+}
+
+function standingFrom(body: Partial<QueueStanding>): QueueStanding {
+  return {
+    referralCode: String(body.referralCode ?? ''),
+    position: typeof body.position === 'number' ? body.position : null,
+    total: typeof body.total === 'number' ? body.total : null,
+  };
+}
+
+/**
+ * POST a sign-up to /api/waitlist. Resolves once it is stored as pending
+ * (a confirmation email is on its way), throws WaitlistError otherwise.
+ * The standing is null when the address was already pending: the Worker
+ * only shows it through the emailed link then.
+ */
+export async function joinWaitlist(payload: WaitlistSubmission): Promise<QueueStanding | null> {
+  const res = await post('/api/waitlist', payload);
+  if (!res.ok) throw await errorFrom(res);
+  const body = await res.json() as Partial<QueueStanding>;
+  return body.referralCode ? standingFrom(body) : null;
+}
+
+/** Exchange the emailed confirmation token for a confirmed sign-up */
+export async function confirmWaitlist(token: string): Promise<QueueStanding & { beta: boolean }> {
+  const res = await post('/api/waitlist/confirm', { token });
+  if (!res.ok) throw await errorFrom(res);
+  const body = await res.json() as Partial<QueueStanding> & { beta: boolean };
+  return { beta: body.beta, ...standingFrom(body) };
+}
+
+/** What /waitlist/manage shows for a sign-up */
+export interface ManagedEntry {
+  name: string;
+  email: string;
+  university: string;
+  level: string;
+  beta: boolean;
+  status: 'pending' | 'confirmed';
+  createdAt: string;
+}
+
+/** Call /api/waitlist/manage with the token from a manage link */
+async function manage(token: string, method: 'GET' | 'PATCH' | 'DELETE', payload?: unknown): Promise<Response> {
+  const res = await request('/api/waitlist/manage', {
+    method,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      ...(payload !== undefined && { 'Content-Type': 'application/json' }),
+    },
+    body: payload === undefined ? undefined : JSON.stringify(payload),
+  });
+  if (!res.ok) throw await errorFrom(res);
+  return res;
+}
+
+export async function getManagedEntry(token: string): Promise<ManagedEntry> {
+  const body = await (await manage(token, 'GET')).json() as { entry: ManagedEntry };
+  return body.entry;
+}
+
+export async function updateManagedEntry(token: string, changes: { beta: boolean }): Promise<ManagedEntry> {
+  const body = await (await manage(token, 'PATCH', changes)).json() as { entry: ManagedEntry };
+  return body.entry;
+}
+
+/** Permanently delete the sign-up the token belongs to */
+export async function deleteManagedEntry(token: string): Promise<void> {
+  await manage(token, 'DELETE');
+}
+
+/** Ask for a fresh manage link by email. Resolves the same whether or not the address is listed. */
+export async function requestManageLink(email: string): Promise<void> {
+  const res = await post('/api/waitlist/manage-link', { email });
+  if (!res.ok) throw await errorFrom(res);
+}
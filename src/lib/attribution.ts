@@ -0,0 +1,120 @@
+/**
+ * attribution.ts — where a sign-up came from.
+ *
+ * Captures `utm_*` parameters, the external referrer, the landing time and
+ * (on /u/<slug> pages) the school on the first page view of a browser
+ * session, plus the first call to action
+ * (Nav, Hero or CtaSection) that opened LeadForm. First-touch values win:
+ * later page views and CTA clicks in the same session don't overwrite them.
+ *
+ * Kept in sessionStorage, so a new tab or visit starts a fresh session.
+ * Only runs with 'attribution' consent (lib/consent.ts); if consent is given
+ * after landing, the values are still taken from the page the visitor landed on.
+ */
+
+import { UTM_PARAMS } from './waitlist';
+import type { Attribution, CtaSource } from './waitlist';
+import { hasConsent } from './consent';
+import { matchPath } from './router';
+import { findSchoolBySlug } from '../data/medSchools';
+
+const STORAGE_KEY = 'bloomed.attribution';
+const MAX_TEXT = 200;
+const MAX_URL = 500;
+
+// Matches the per-school route in routes.ts
+const SCHOOL_PAGE_PATH = '/u/:slug';
+
+/**
+ * The URL and time of the page the visitor landed on, noted on the first
+ * captureAttribution() call — consent may arrive after in-app navigation.
+ */
+let landing: { pathname: string; search: string; at: string } | null = null;
+
+// Fallback for when sessionStorage is unavailable (e.g. some private modes)
+let current: Attribution | null = null;
+
+function read(): Attribution | null {
+  try {
+    const raw = sessionStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) as Attribution : current;
+  } catch {
+    return current;
+  }
+}
+
+function clear(): void {
+  current = null;
+  try {
+    sessionStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+}
+
+function write(attribution: Attribution): void {
+  current = attribution;
+  try {
+    sessionStorage.setItem(STORAGE_KEY, JSON.stringify(attribution));
+  } catch {
+    // Keep the in-memory copy only
+  }
+}
+
+/** document.referrer, unless it is one of our own pages */
+function externalReferrer(): string | null {
+  if (!document.referrer) return null;
+  try {
+    if (new URL(document.referrer).origin === window.location.origin) return null;
+  } catch {
+    return null;
+  }
+  return document.referrer.slice(0, MAX_URL);
+}
+
+/** The school whose landing page this is, by slug */
+function schoolFor(pathname: string): string | null {
+  const params = matchPath(SCHOOL_PAGE_PATH, pathname);
+  return params && findSchoolBySlug(params.slug) ? params.slug : null;
+}
+
+/**
+ * Record first-touch attribution for this session. Call on app start and
+ * whenever consent changes; without consent, anything stored is cleared.
+ */
+export function captureAttribution(): void {
+  landing ??= {
+    pathname: window.location.pathname,
+    search: window.location.search,
+    at: new Date().toISOString(),
+  };
+
+  if (!hasConsent('attribution')) {
+    clear();
+    return;
+  }
+  if (read()) return;
+
+  const params = new URLSearchParams(landing.search);
+  const utm = Object.fromEntries(
+    UTM_PARAMS.map(param => [param, params.get(param)?.trim().slice(0, MAX_TEXT) || null]),
+  ) as Pick<Attribution, typeof UTM_PARAMS[number]>;
+
+  write({
+    ...utm,
+    referrer: externalReferrer(),
+    landed_at: landing.at,
+    cta: null,
+    school: schoolFor(landing.pathname),
+  });
+}
+
+/** Note which call to action opened the form; only the first one counts */
+export function recordCta(source: CtaSource): void {
+  const attribution = getAttribution();
+  if (attribution && !attribution.cta) write({ ...attribution, cta: source });
+}
+
+export function getAttribution(): Attribution | null {
+  return hasConsent('attribution') ? read() : null;
+}
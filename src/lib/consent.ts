@@ -0,0 +1,75 @@
+/**
+ * consent.ts — the visitor's privacy choices, and the gate that optional
+ * tracking must pass before it runs.
+ *
+ * Categories:
+ *   - 'analytics'   → funnel events (lib/analytics.ts)
+ *   - 'attribution' → utm / referrer / CTA capture (lib/attribution.ts)
+ *
+ * Nothing optional runs until the visitor has chosen. Choices are stored in
+ * localStorage against PRIVACY_POLICY_VERSION; when the policy changes, the
+ * stored choice no longer counts and ConsentBanner asks again.
+ * Consent to be contacted is separate — it's a LeadForm step recorded with
+ * the sign-up itself.
+ */
+
+import { PRIVACY_POLICY_VERSION } from './site';
+
+export const CONSENT_CATEGORIES = ['analytics', 'attribution'] as const;
+
+export type ConsentCategory = typeof CONSENT_CATEGORIES[number];
+
+export type ConsentChoices = Record<ConsentCategory, boolean>;
+
+export interface ConsentRecord extends ConsentChoices {
+  policyVersion: string;
+  /** ISO timestamp of the decision */
+  decidedAt: string;
+}
+
+const STORAGE_KEY = 'bloomed.consent';
+
+type Listener = (consent: ConsentRecord | null) => void;
+
+const listeners = new Set<Listener>();
+
+// Fallback for when localStorage is unavailable: choices last for the page view
+let current: ConsentRecord | null = null;
+
+/** The stored decision for the current policy version, or null if the visitor hasn't chosen */
+export function getConsent(): ConsentRecord | null {
+  let record = current;
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) record = JSON.parse(raw) as ConsentRecord;
+  } catch {
+    // Fall through to the in-memory copy
+  }
+  return record?.policyVersion === PRIVACY_POLICY_VERSION ? record : null;
+}
+
+/** The gate: true only if the visitor opted in to this category */
+export function hasConsent(category: ConsentCategory): boolean {
+  return getConsent()?.[category] === true;
+}
+
+export function setConsent(choices: ConsentChoices): void {
+  const record: ConsentRecord = {
+    ...choices,
+    policyVersion: PRIVACY_POLICY_VERSION,
+    decidedAt: new Date().toISOString(),
+  };
+  current = record;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(record));
+  } catch {
+    // Keep the in-memory copy only
+  }
+  listeners.forEach(listener => listener(record));
+}
+
+/** Subscribe to consent decisions; returns an unsubscribe function */
+export function onConsentChange(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
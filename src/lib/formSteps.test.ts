@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyAnswer,
+  applyDefaults,
+  isFormComplete,
+  pruneAnswers,
+  revealedSteps,
+  summarise,
+} from './formSteps';
+import type { Answers, FormStep } from './formSteps';
+
+const isStudent = (a: Answers) => a.role === 'student';
+
+/** The LeadForm's shape in miniature: a gated step, and a follow-up chain off `role` */
+const STEPS: FormStep[] = [
+  { id: 'name', fields: [{ name: 'name', label: 'Name', type: 'text' }] },
+  {
+    id: 'role',
+    fields: [{
+      name: 'role', label: 'Role', type: 'choice', layout: 'grid',
+      options: [{ value: 'student', label: 'Student' }, { value: 'junior', label: 'Junior doctor' }],
+    }],
+  },
+  {
+    id: 'level',
+    when: isStudent,
+    dependsOn: ['role'],
+    fields: [{
+      name: 'level', label: 'Degree stage', type: 'choice', layout: 'list',
+      options: [{ value: 'Clinical', label: 'Clinical years' }],
+    }],
+  },
+  { id: 'focus', dependsOn: ['level'], fields: [{ name: 'focus', label: 'Focus', type: 'text', required: false }] },
+  {
+    id: 'beta',
+    fields: [{
+      name: 'beta', label: 'Joining', type: 'choice', layout: 'list',
+      options: [{ value: true, label: 'Beta' }, { value: false, label: 'Launch' }],
+    }],
+  },
+  { id: 'consent', fields: [{ name: 'consent', label: 'Consent', type: 'checkbox', text: 'You may email me' }] },
+];
+
+const ids = (steps: FormStep[]) => steps.map(s => s.id);
+
+describe('revealedSteps', () => {
+  it('reveals up to and including the first incomplete step', () => {
+    expect(ids(revealedSteps(STEPS, {}))).toEqual(['name']);
+    expect(ids(revealedSteps(STEPS, { name: 'Sam' }))).toEqual(['name', 'role']);
+  });
+
+  it('skips steps whose `when` is false', () => {
+    expect(ids(revealedSteps(STEPS, { name: 'Sam', role: 'junior' }))).toEqual(['name', 'role', 'focus', 'beta']);
+    expect(ids(revealedSteps(STEPS, { name: 'Sam', role: 'student' }))).toEqual(['name', 'role', 'level']);
+  });
+
+  it('treats an unticked required checkbox as incomplete', () => {
+    const answers = { name: 'Sam', role: 'junior', beta: true, consent: null };
+    expect(ids(revealedSteps(STEPS, answers)).pop()).toBe('consent');
+    expect(isFormComplete(STEPS, answers)).toBe(false);
+    expect(isFormComplete(STEPS, { ...answers, consent: true })).toBe(true);
+  });
+});
+
+describe('isFormComplete', () => {
+  it('ignores steps that do not apply', () => {
+    expect(isFormComplete(STEPS, { name: 'Sam', role: 'junior', beta: false, consent: true })).toBe(true);
+    expect(isFormComplete(STEPS, { name: 'Sam', role: 'student', beta: false, consent: true })).toBe(false);
+  });
+});
+
+describe('applyAnswer', () => {
+  const student = { name: 'Sam', role: 'student', level: 'Clinical', focus: 'Cardiology', beta: true };
+
+  it('sets an answer without touching others', () => {
+    expect(applyAnswer(STEPS, student, 'name', 'Alex')).toEqual({ ...student, name: 'Alex' });
+  });
+
+  it('clears dependants transitively when an answer changes', () => {
+    // role → level → focus; level's step no longer applies to a junior doctor either way
+    expect(applyAnswer(STEPS, student, 'role', 'junior')).toEqual({ name: 'Sam', role: 'junior', beta: true });
+  });
+
+  it('clears dependants even when the step still applies', () => {
+    const next = applyAnswer(STEPS, student, 'level', 'Pre-clinical');
+    expect(next).toEqual({ name: 'Sam', role: 'student', level: 'Pre-clinical', beta: true });
+  });
+
+  it('keeps dependants when the answer is set to the same value, or set for the first time', () => {
+    expect(applyAnswer(STEPS, student, 'role', 'student')).toEqual(student);
+    expect(applyAnswer(STEPS, { name: 'Sam', focus: 'Surgery' }, 'role', 'junior'))
+      .toEqual({ name: 'Sam', focus: 'Surgery', role: 'junior' });
+  });
+});
+
+describe('pruneAnswers', () => {
+  it('drops answers for steps that no longer apply', () => {
+    expect(pruneAnswers(STEPS, { role: 'junior', level: 'Clinical', beta: true })).toEqual({ role: 'junior', beta: true });
+  });
+});
+
+describe('applyDefaults', () => {
+  it('fills blanks on applicable steps only, never overwriting an answer', () => {
+    const defaults = { name: 'Default', level: 'Clinical', focus: 'Surgery' };
+    expect(applyDefaults(STEPS, { name: 'Sam', role: 'junior', focus: '' }, defaults))
+      .toEqual({ name: 'Sam', role: 'junior', focus: 'Surgery' });
+  });
+});
+
+describe('summarise', () => {
+  it('lists answered fields in form order, whatever order they were given in', () => {
+    const answers = { consent: true, beta: false, level: 'Clinical', role: 'student', name: 'Sam', focus: '' };
+    expect(summarise(STEPS, answers).map(i => [i.stepId, i.display])).toEqual([
+      ['name', 'Sam'],
+      ['role', 'Student'],
+      ['level', 'Clinical years'],
+      ['beta', 'Launch'],
+      ['consent', 'Yes'],
+    ]);
+  });
+
+  it('leaves out steps that do not apply', () => {
+    const items = summarise(STEPS, { name: 'Sam', role: 'junior', level: 'Clinical' });
+    expect(items.map(i => i.stepId)).toEqual(['name', 'role']);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * formSteps.ts — a small engine for progressive-reveal forms.
+ *
+ * A form is an ordered list of steps. Each step holds one or more fields and
+ * an optional visibility predicate. A step is revealed once every applicable
+ * step before it is complete; steps whose predicate is false are skipped
+ * entirely (and their answers pruned), so "junior doctors skip the degree
+ * question" is just `when: a => a.role === 'student'`.
+ *
+ * Steps can also declare `dependsOn`: when one of those answers changes, the
+ * step's own answers are cleared (transitively), so stale follow-ups never
+ * survive an edit made from the review summary.
+ *
+ * The step definitions themselves are data — see data/leadFormSteps.ts.
+ */
+
+export type FieldValue = string | boolean | null;
+
+export type Answers = Record<string, FieldValue>;
+
+export interface FieldOption {
+  value: Exclude<FieldValue, null>;
+  label: string;
+  desc?: string;
+}
+
+interface FieldBase {
+  /** Key in the answers object */
+  name: string;
+  /** Short label used in the review summary and as the accessible name */
+  label: string;
+  /** Defaults to true. Optional fields never block the next step. */
+  required?: boolean;
+  /** Return an error message, or null when the value is acceptable */
+  validate?: (value: FieldValue, answers: Answers) => string | null;
+}
+
+export interface TextField extends FieldBase {
+  type: 'text' | 'email';
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+export interface SelectField extends FieldBase {
+  type: 'select';
+  placeholder: string;
+  options: readonly FieldOption[];
+}
+
+export interface ChoiceField extends FieldBase {
+  type: 'choice';
+  options: readonly FieldOption[];
+  /** 'grid' lays short options side by side; 'list' stacks full-width cards */
+  layout: 'grid' | 'list';
+}
+
+/** A single tick box. Unticked is blank, so a required checkbox must be ticked. */
+export interface CheckboxField extends FieldBase {
+  type: 'checkbox';
+  /** Sentence shown next to the box */
+  text: string;
+  link?: { href: string; label: string };
+}
+
+export type FieldDef = TextField | SelectField | ChoiceField | CheckboxField;
+
+export interface FormStep {
+  id: string;
+  label?: string;
+  fields: readonly FieldDef[];
+  /** Visibility predicate — when false the step is skipped, not just hidden */
+  when?: (answers: Answers) => boolean;
+  /** Answer names this step depends on; changing any of them clears this step */
+  dependsOn?: readonly string[];
+}
+
+export interface SummaryItem {
+  stepId: string;
+  field: FieldDef;
+  display: string;
+}
+
+function isBlank(value: FieldValue | undefined): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+export function fieldError(field: FieldDef, answers: Answers): string | null {
+  const value = answers[field.name] ?? null;
+  if (isBlank(value)) return field.required === false ? null : 'Required';
+  return field.validate?.(value, answers) ?? null;
+}
+
+export function isStepComplete(step: FormStep, answers: Answers): boolean {
+  return step.fields.every(f => fieldError(f, answers) === null);
+}
+
+export function isStepApplicable(step: FormStep, answers: Answers): boolean {
+  return step.when?.(answers) ?? true;
+}
+
+/** The steps currently on screen: every applicable step up to and including the first incomplete one */
+export function revealedSteps(steps: readonly FormStep[], answers: Answers): FormStep[] {
+  const revealed: FormStep[] = [];
+  for (const step of steps) {
+    if (!isStepApplicable(step, answers)) continue;
+    revealed.push(step);
+    if (!isStepComplete(step, answers)) break;
+  }
+  return revealed;
+}
+
+export function isFormComplete(steps: readonly FormStep[], answers: Answers): boolean {
+  return steps.every(s => !isStepApplicable(s, answers) || isStepComplete(s, answers));
+}
+
+/** Drop answers belonging to steps that no longer apply (e.g. level after switching to junior doctor) */
+export function pruneAnswers(steps: readonly FormStep[], answers: Answers): Answers {
+  const next = { ...answers };
+  for (const step of steps) {
+    if (isStepApplicable(step, next)) continue;
+    for (const field of step.fields) delete next[field.name];
+  }
+  return next;
+}
+
+/**
+ * Fill blank answers on applicable steps from `defaults` — e.g. the
+ * university of the school page the form was opened from. Answers already
+ * given are never overwritten.
+ */
+export function applyDefaults(steps: readonly FormStep[], answers: Answers, defaults: Answers): Answers {
+  const next = { ...answers };
+  for (const step of steps) {
+    if (!isStepApplicable(step, next)) continue;
+    for (const field of step.fields) {
+      const preset = defaults[field.name];
+      if (isBlank(next[field.name]) && !isBlank(preset)) next[field.name] = preset;
+    }
+  }
+  return next;
+}
+
+/**
+ * Set one answer and clear everything that depends on it. Dependencies are
+ * followed transitively, then answers for steps that no longer apply are pruned.
+ */
+export function applyAnswer(
+  steps: readonly FormStep[],
+  answers: Answers,
+  name: string,
+  value: FieldValue,
+): Answers {
+  const next: Answers = { ...answers, [name]: value };
+
+  if (answers[name] !== undefined && answers[name] !== value) {
+    const changed = [name];
+    while (changed.length > 0) {
+      const source = changed.pop()!;
+      for (const step of steps) {
+        if (!step.dependsOn?.includes(source)) continue;
+        for (const field of step.fields) {
+          if (next[field.name] === undefined) continue;
+          delete next[field.name];
+          changed.push(field.name);
+        }
+      }
+    }
+  }
+
+  return pruneAnswers(steps, next);
+}
+
+/** Human-readable value: option labels for choices/selects, Yes/No for checkboxes, the raw text otherwise */
+export function formatValue(field: FieldDef, value: FieldValue): string {
+  if (value === null) return '';
+  if (field.type === 'select' || field.type === 'choice') {
+    return field.options.find(o => o.value === value)?.label ?? String(value);
+  }
+  if (field.type === 'checkbox') return value === true ? 'Yes' : 'No';
+  return String(value);
+}
+
+/** Every answered field on an applicable step, in form order — drives the review panel */
+export function summarise(steps: readonly FormStep[], answers: Answers): SummaryItem[] {
+  const items: SummaryItem[] = [];
+  for (const step of steps) {
+    if (!isStepApplicable(step, answers)) continue;
+    for (const field of step.fields) {
+      const value = answers[field.name] ?? null;
+      if (value === null || value === '') continue;
+      items.push({ stepId: step.id, field, display: formatValue(field, value) });
+    }
+  }
+  return items;
+}
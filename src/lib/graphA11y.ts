@@ -0,0 +1,68 @@
+/**
+ * graphA11y.ts — what the knowledge graph says to assistive technology.
+ *
+ * The graph's meaning is carried by colour and motion: which topics light
+ * up, which dim, which connections form. These helpers put the same story
+ * into words for each narrative phase — node labels for GraphCanvas, and
+ * the phase announcement NarrativeSection reads out — plus the adjacency
+ * KnowledgeGraph walks for arrow-key navigation. Topic and category names
+ * come from the graph itself (data/knowledgeGraph.json).
+ */
+
+import type { Graph, GraphNode, GraphPhase } from '../data/graphTypes';
+import { categoryOf } from './graphSchema';
+
+/** Labels are split over lines for the SVG */
+export function topicName(node: GraphNode): string {
+  return node.label.replace(/\n/g, ' ');
+}
+
+/** Nodes sharing an edge with `nodeId`, in edge order */
+export function neighbours(graph: Graph, nodeId: string): GraphNode[] {
+  return graph.edges.flatMap(e => {
+    const other = e.source === nodeId ? e.target : e.target === nodeId ? e.source : null;
+    const node = other ? graph.nodes.find(n => n.id === other) : undefined;
+    return node ? [node] : [];
+  });
+}
+
+/** Where a topic stands in `phase`, as the animation shows it; null before the story starts */
+function nodeState(graph: Graph, node: GraphNode, phase: GraphPhase): string | null {
+  const known = graph.known.has(node.id);
+  switch (phase) {
+    case 'diagnostic': return known ? 'known' : 'not yet known';
+    case 'learning':   return known ? 'known' : 'learning';
+    case 'solidify':   return 'reinforced';
+    default:           return null;
+  }
+}
+
+/** e.g. "Pathology, pathological science, learning. Connected to Physiology, Microbiology." */
+export function nodeLabel(graph: Graph, node: GraphNode, phase: GraphPhase): string {
+  const state = nodeState(graph, node, phase);
+  const linked = neighbours(graph, node.id).map(topicName).join(', ');
+  return [
+    `${topicName(node)}, ${categoryOf(graph, node).name}${state ? `, ${state}` : ''}.`,
+    linked && `Connected to ${linked}.`,
+  ].filter(Boolean).join(' ');
+}
+
+export function graphLabel(graph: Graph): string {
+  return `Knowledge graph of ${graph.nodes.length} medical topics. Use the arrow keys to move between connected topics.`;
+}
+
+/** Read out when the narrative moves to `phase`; empty for the resting graph */
+export function phaseAnnouncement(graph: Graph, phase: GraphPhase): string {
+  const total = graph.nodes.length;
+  const known = graph.nodes.filter(n => graph.known.has(n.id)).length;
+  switch (phase) {
+    case 'diagnostic':
+      return `Diagnostic: ${known} of ${total} topics are known, scattered across the graph. The rest are dimmed.`;
+    case 'learning':
+      return `Targeted plan: the ${total - known} remaining topics are being learnt, with new connections forming to what you know.`;
+    case 'solidify':
+      return `Solidification: all ${total} topics are connected and reinforced.`;
+    default:
+      return '';
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import graphJson from '../data/knowledgeGraph.json';
+import { buildGraph, validateGraph } from './graphSchema';
+
+/** A small valid document; each test breaks one thing */
+function doc() {
+  return {
+    categories: [
+      { id: 'basic', name: 'basic science', colour: 'foundational' },
+      { id: 'ward', name: 'clinical science', colour: 'clinical' },
+    ],
+    nodes: [
+      { id: 'anatomy', label: 'Anatomy', category: 'basic', x: 100, y: 100 },
+      { id: 'surgery', label: 'Surgery', category: 'ward', x: 600, y: 400 },
+    ],
+    edges: [{ id: 'anatomy-surgery', source: 'anatomy', target: 'surgery' }],
+    scenarios: [{ id: 'default', known: ['anatomy'] }, { id: 'none', known: [] }],
+  };
+}
+
+function errorsFor(input: unknown): string[] {
+  const result = validateGraph(input);
+  return result.ok ? [] : result.errors;
+}
+
+describe('validateGraph', () => {
+  it('accepts the shipped knowledgeGraph.json', () => {
+    expect(errorsFor(graphJson)).toEqual([]);
+  });
+
+  it('accepts a valid document', () => {
+    expect(validateGraph(doc())).toEqual({ ok: true, value: doc() });
+  });
+
+  it('rejects edges whose ends are not nodes', () => {
+    const input = doc();
+    input.edges.push({ id: 'dangling', source: 'anatomy', target: 'pharmacology' });
+    expect(errorsFor(input)).toEqual(['edges[1].target: no node "pharmacology"']);
+  });
+
+  it('rejects an edge from a node to itself', () => {
+    const input = doc();
+    input.edges.push({ id: 'loop', source: 'surgery', target: 'surgery' });
+    expect(errorsFor(input)).toEqual(['edges[1]: connects "surgery" to itself']);
+  });
+
+  it('rejects duplicate and malformed ids', () => {
+    const input = doc();
+    input.nodes.push({ ...input.nodes[0], x: 200 }, { ...input.nodes[1], id: '2nd opinion' });
+    expect(errorsFor(input)).toEqual([
+      'nodes[2].id: "anatomy" is used twice',
+      'nodes[3].id: "2nd opinion" may only use letters, digits, - and _, starting with a letter',
+    ]);
+  });
+
+  it('rejects unknown categories and colours', () => {
+    const input = doc();
+    input.nodes[1].category = 'psychiatry';
+    input.categories[0].colour = 'mauve';
+    expect(errorsFor(input)).toEqual([
+      'categories[0].colour: must be one of foundational, pathological, clinical, specialty',
+      'nodes[1].category: no category "psychiatry"',
+    ]);
+  });
+
+  it('rejects positions outside the canvas', () => {
+    const input = doc();
+    input.nodes[0].x = 741;
+    (input.nodes[1] as { y: unknown }).y = '400';
+    expect(errorsFor(input)).toEqual([
+      'nodes[0].x: must be a number from 0 to 740',
+      'nodes[1].y: must be a number from 0 to 500',
+    ]);
+  });
+
+  it('rejects scenarios that know unknown topics', () => {
+    const input = doc();
+    input.scenarios[0].known.push('surgery', 'radiology');
+    expect(errorsFor(input)).toEqual(['scenarios[0].known[2]: no node "radiology"']);
+  });
+
+  it('reports missing lists, allowing only edges to be empty', () => {
+    expect(errorsFor({ ...doc(), edges: [] })).toEqual([]);
+    expect(errorsFor({ edges: [] })).toEqual([
+      'categories: must be a non-empty array',
+      'nodes: must be a non-empty array',
+      'scenarios: must be a non-empty array',
+    ]);
+    expect(errorsFor(null)).toContain('The document must be an object');
+  });
+});
+
+describe('buildGraph', () => {
+  it('uses the first scenario unless one is named', () => {
+    const result = validateGraph(doc());
+    if (!result.ok) throw new Error(result.errors.join('\n'));
+    const { value } = result;
+    expect([...buildGraph(value).known]).toEqual(['anatomy']);
+    expect([...buildGraph(value, 'none').known]).toEqual([]);
+    expect(() => buildGraph(value, 'missing')).toThrow('Unknown knowledge graph scenario "missing"');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * graphSchema.ts — checks the knowledge graph document (data/knowledgeGraph.json)
+ * and turns one of its scenarios into the Graph the components draw.
+ *
+ * The JSON is edited by hand, so validation reports every problem at once,
+ * each with its path (e.g. `nodes[3].category`). data/graphData.ts throws
+ * on any of them, which fails the build's prerender rather than shipping a
+ * broken graph.
+ */
+
+import type {
+  CategoryColour,
+  Graph,
+  GraphCategory,
+  GraphDocument,
+  GraphEdge,
+  GraphNode,
+  GraphScenario,
+} from '../data/graphTypes';
+import { CATEGORY_COLOURS } from './palette';
+
+export type GraphValidation =
+  | { ok: true; value: GraphDocument }
+  | { ok: false; errors: string[] };
+
+/** Ids end up in element ids and GSAP selectors (`#node-<id>-ring`) */
+const ID_RE = /^[A-Za-z][\w-]*$/;
+
+/** The canvas viewBox (GraphCanvas) */
+const VIEW_WIDTH = 740;
+const VIEW_HEIGHT = 500;
+
+// ── Validation ──
+
+type Raw = Record<string, unknown>;
+
+function isObject(value: unknown): value is Raw {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function validateGraph(input: unknown): GraphValidation {
+  const errors: string[] = [];
+  const raw = isObject(input) ? input : {};
+  if (!isObject(input)) errors.push('The document must be an object');
+
+  /** Only edges may be empty: a graph of unconnected topics still draws */
+  const list = (key: keyof GraphDocument): unknown[] => {
+    const value = raw[key];
+    const mayBeEmpty = key === 'edges';
+    if (Array.isArray(value) && (value.length > 0 || mayBeEmpty)) return value;
+    errors.push(`${key}: must be ${mayBeEmpty ? 'an' : 'a non-empty'} array`);
+    return [];
+  };
+
+  const string = (item: Raw, key: string, path: string): string => {
+    const value = item[key];
+    if (typeof value === 'string' && value.trim()) return value;
+    errors.push(`${path}.${key}: must be a non-empty string`);
+    return '';
+  };
+
+  /** Checks an id's format and that it is unique within `seen` */
+  const id = (item: Raw, path: string, seen: Set<string>): string => {
+    const value = string(item, 'id', path);
+    if (!value) return '';
+    if (!ID_RE.test(value)) errors.push(`${path}.id: "${value}" may only use letters, digits, - and _, starting with a letter`);
+    else if (seen.has(value)) errors.push(`${path}.id: "${value}" is used twice`);
+    seen.add(value);
+    return value;
+  };
+
+  const objects = (key: keyof GraphDocument) =>
+    list(key).flatMap((item, i) => {
+      if (isObject(item)) return [{ item, path: `${key}[${i}]` }];
+      errors.push(`${key}[${i}]: must be an object`);
+      return [];
+    });
+
+  const categoryIds = new Set<string>();
+  const categories: GraphCategory[] = objects('categories').map(({ item, path }) => {
+    const colour = item.colour;
+    if (!(CATEGORY_COLOURS as readonly unknown[]).includes(colour)) {
+      errors.push(`${path}.colour: must be one of ${CATEGORY_COLOURS.join(', ')}`);
+    }
+    return {
+      id: id(item, path, categoryIds),
+      name: string(item, 'name', path),
+      colour: colour as CategoryColour,
+    };
+  });
+
+  const nodeIds = new Set<string>();
+  const nodes: GraphNode[] = objects('nodes').map(({ item, path }) => {
+    const node = {
+      id: id(item, path, nodeIds),
+      label: string(item, 'label', path),
+      category: string(item, 'category', path),
+      x: item.x as number,
+      y: item.y as number,
+    };
+    if (node.category && !categoryIds.has(node.category)) {
+      errors.push(`${path}.category: no category "${node.category}"`);
+    }
+    for (const [axis, max] of [['x', VIEW_WIDTH], ['y', VIEW_HEIGHT]] as const) {
+      const value = item[axis];
+      if (typeof value !== 'number' || !(value >= 0 && value <= max)) {
+        errors.push(`${path}.${axis}: must be a number from 0 to ${max}`);
+      }
+    }
+    return node;
+  });
+
+  const reference = (item: Raw, key: string, path: string): string => {
+    const value = string(item, key, path);
+    if (value && !nodeIds.has(value)) errors.push(`${path}.${key}: no node "${value}"`);
+    return value;
+  };
+
+  const edgeIds = new Set<string>();
+  const edges: GraphEdge[] = objects('edges').map(({ item, path }) => {
+    const edge = {
+      id: id(item, path, edgeIds),
+      source: reference(item, 'source', path),
+      target: reference(item, 'target', path),
+    };
+    if (edge.source && edge.source === edge.target) errors.push(`${path}: connects "${edge.source}" to itself`);
+    return edge;
+  });
+
+  const scenarioIds = new Set<string>();
+  const scenarios: GraphScenario[] = objects('scenarios').map(({ item, path }) => {
+    const known = Array.isArray(item.known) ? item.known : [];
+    if (!Array.isArray(item.known)) errors.push(`${path}.known: must be an array of node ids`);
+    known.forEach((nodeId, i) => {
+      if (typeof nodeId !== 'string' || !nodeIds.has(nodeId)) {
+        errors.push(`${path}.known[${i}]: no node ${JSON.stringify(nodeId)}`);
+      }
+    });
+    return { id: id(item, path, scenarioIds), known: known as string[] };
+  });
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: { categories, nodes, edges, scenarios } };
+}
+
+// ── Scenarios ──
+
+/** The graph as told by scenario `scenarioId` (default: the first). Throws for an unknown id. */
+export function buildGraph(doc: GraphDocument, scenarioId?: string): Graph {
+  const scenario = scenarioId === undefined
+    ? doc.scenarios[0]
+    : doc.scenarios.find(s => s.id === scenarioId);
+  if (!scenario) throw new Error(`Unknown knowledge graph scenario "${scenarioId}"`);
+
+  return {
+    categories: new Map(doc.categories.map(c => [c.id, c])),
+    nodes: doc.nodes,
+    edges: doc.edges,
+    known: new Set(scenario.known),
+  };
+}
+
+/** A validated graph always has the node's category */
+export function categoryOf(graph: Graph, node: GraphNode): GraphCategory {
+  return graph.categories.get(node.category)!;
+}
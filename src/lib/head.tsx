@@ -0,0 +1,143 @@
+/**
+ * head.tsx — per-route <title>, description, canonical, Open Graph / Twitter
+ * tags and JSON-LD.
+ *
+ * Each page calls useHead() once, describing what it shows. In the browser
+ * the tags are swapped into document.head whenever they change; in the
+ * prerender (entry-server.tsx) <HeadProvider> collects them instead and
+ * scripts/prerender.mjs writes them into the static HTML. Either way the
+ * tags come from headTags(), and every managed element carries `data-head`
+ * so the previous page's tags can be removed.
+ */
+
+import { createContext, useContext, useEffect } from 'react';
+import type { ReactNode } from 'react';
+import { DEFAULT_OG_IMAGE, SITE_NAME, SITE_URL } from './site';
+
+/** One schema.org node, without @context (added once per page) */
+export type JsonLd = { '@type': string } & Record<string, unknown>;
+
+/** Artwork behind the title on a page's generated Open Graph image */
+export type OgArt = 'bloom' | 'australia';
+
+export interface PageHead {
+  title: string;
+  description: string;
+  /** Canonical path, e.g. '/u/monash' */
+  path: string;
+  /**
+   * Site-relative or absolute. Defaults to the image the build generates for
+   * `path` (ogImagePath), or DEFAULT_OG_IMAGE for noindex pages.
+   */
+  image?: string;
+  /** For the generated image; defaults to 'bloom' */
+  ogArt?: OgArt;
+  /** Keep the page out of search results (token links, 404) */
+  noindex?: boolean;
+  jsonLd?: readonly JsonLd[];
+}
+
+interface HeadTag {
+  tag: 'title' | 'meta' | 'link' | 'script';
+  attrs: Record<string, string>;
+  content?: string;
+}
+
+export function absoluteUrl(pathOrUrl: string): string {
+  return new URL(pathOrUrl, SITE_URL).href;
+}
+
+/** Where the prerender writes a page's Open Graph image: '/' → '/og/home.png', '/u/uq' → '/og/u/uq.png' */
+export function ogImagePath(path: string): string {
+  return `/og/${path === '/' ? 'home' : path.slice(1)}.png`;
+}
+
+/** True when the build generates this page's Open Graph image (see scripts/prerender.mjs) */
+export function hasGeneratedOgImage(head: PageHead): boolean {
+  return head.image === undefined && !head.noindex;
+}
+
+export function headTags(head: PageHead): HeadTag[] {
+  const url = absoluteUrl(head.path);
+  const image = absoluteUrl(hasGeneratedOgImage(head) ? ogImagePath(head.path) : head.image ?? DEFAULT_OG_IMAGE);
+  const meta = (key: 'name' | 'property', value: string, content: string): HeadTag =>
+    ({ tag: 'meta', attrs: { [key]: value, content } });
+
+  const tags: HeadTag[] = [
+    { tag: 'title', attrs: {}, content: head.title },
+    meta('name', 'description', head.description),
+  ];
+
+  if (head.noindex) tags.push(meta('name', 'robots', 'noindex'));
+  else tags.push({ tag: 'link', attrs: { rel: 'canonical', href: url } });
+
+  tags.push(
+    meta('property', 'og:type', 'website'),
+    meta('property', 'og:site_name', SITE_NAME),
+    meta('property', 'og:url', url),
+    meta('property', 'og:title', head.title),
+    meta('property', 'og:description', head.description),
+    meta('property', 'og:image', image),
+    meta('name', 'twitter:card', 'summary_large_image'),
+    meta('name', 'twitter:title', head.title),
+    meta('name', 'twitter:description', head.description),
+    meta('name', 'twitter:image', image),
+  );
+
+  if (head.jsonLd?.length) {
+    tags.push({
+      tag: 'script',
+      attrs: { type: 'application/ld+json' },
+      content: JSON.stringify({ '@context': 'https://schema.org', '@graph': head.jsonLd }),
+    });
+  }
+
+  return tags;
+}
+
+// ── Server: HTML string ──
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** The tags as HTML, for the prerender to insert into <head> */
+export function renderHead(head: PageHead): string {
+  return headTags(head).map(({ tag, attrs, content }) => {
+    const attributes = Object.entries(attrs).map(([name, value]) => ` ${name}="${escapeHtml(value)}"`).join('');
+    if (tag === 'meta' || tag === 'link') return `<${tag} data-head${attributes} />`;
+    // JSON can't contain a raw "</script>"; < is the same string to a JSON parser
+    const body = tag === 'script' ? content!.replace(/</g, '\\u003c') : escapeHtml(content ?? '');
+    return `<${tag} data-head${attributes}>${body}</${tag}>`;
+  }).join('\n    ');
+}
+
+// ── Browser: document.head ──
+
+function applyHead(head: PageHead): void {
+  document.head.querySelectorAll('[data-head]').forEach(el => el.remove());
+  for (const { tag, attrs, content } of headTags(head)) {
+    const el = document.createElement(tag);
+    el.setAttribute('data-head', '');
+    for (const [name, value] of Object.entries(attrs)) el.setAttribute(name, value);
+    if (content !== undefined) el.textContent = content;
+    document.head.appendChild(el);
+  }
+}
+
+// ── React ──
+
+const HeadContext = createContext<((head: PageHead) => void) | null>(null);
+
+/** Server only: receives the head of the page being rendered */
+export function HeadProvider({ onHead, children }: { onHead: (head: PageHead) => void; children: ReactNode }) {
+  return <HeadContext.Provider value={onHead}>{children}</HeadContext.Provider>;
+}
+
+/** Set the document head for the current page. Call it once per page. */
+export function useHead(head: PageHead): void {
+  const collect = useContext(HeadContext);
+  collect?.(head);
+
+  const key = JSON.stringify(head);
+  useEffect(() => applyHead(head), [key]);
+}
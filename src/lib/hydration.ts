@@ -0,0 +1,27 @@
+/**
+ * hydration.ts — is the app taking over prerendered HTML right now?
+ *
+ * Production pages are prerendered at build time (scripts/prerender.mjs) and
+ * main.tsx hydrates that markup. An intro animation that mounts during
+ * hydration would hide and replay artwork the visitor is already looking at,
+ * so such components check isHydrating() in their mount effect.
+ */
+
+let hydrating = false;
+
+/** main.tsx, just before hydrateRoot() */
+export function beginHydration(): void {
+  hydrating = true;
+}
+
+/**
+ * AppShell's first effect. Parent effects run after their children's, so
+ * every page effect of the hydrating commit has seen `true` by then.
+ */
+export function endHydration(): void {
+  hydrating = false;
+}
+
+export function isHydrating(): boolean {
+  return hydrating;
+}
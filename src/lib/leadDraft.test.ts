@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearDraft, loadDraft, saveDraft } from './leadDraft';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+let stored: Map<string, string>;
+
+beforeEach(() => {
+  stored = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => { stored.set(key, value); },
+    removeItem: (key: string) => { stored.delete(key); },
+  });
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T09:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('leadDraft', () => {
+  it('restores a saved draft as it was saved', () => {
+    const answers = { name: 'Sam', role: 'student', level: null, beta: true };
+    saveDraft(answers);
+    expect(loadDraft()).toEqual(answers);
+  });
+
+  it('keeps a draft for a week after its last edit, then discards it', () => {
+    saveDraft({ name: 'Sam' });
+
+    vi.setSystemTime(Date.now() + 6 * DAY);
+    saveDraft({ name: 'Sam', role: 'junior' });
+
+    vi.setSystemTime(Date.now() + 7 * DAY);
+    expect(loadDraft()).toEqual({ name: 'Sam', role: 'junior' });
+
+    vi.setSystemTime(Date.now() + 1);
+    expect(loadDraft()).toBeNull();
+    expect(stored.size).toBe(0);
+  });
+
+  it('restores a fresh draft saved after an expired one was discarded', () => {
+    saveDraft({ name: 'Old' });
+    vi.setSystemTime(Date.now() + 8 * DAY);
+    expect(loadDraft()).toBeNull();
+
+    saveDraft({ name: 'New', role: 'student' });
+    expect(loadDraft()).toEqual({ name: 'New', role: 'student' });
+  });
+
+  it('clears the draft instead of saving one with no answers', () => {
+    saveDraft({ name: 'Sam' });
+    saveDraft({ name: '', beta: null });
+    expect(stored.size).toBe(0);
+    expect(loadDraft()).toBeNull();
+  });
+
+  it('discards a draft without answers and ignores one that is not JSON', () => {
+    stored.set('bloomed.leadDraft', JSON.stringify({ savedAt: Date.now() }));
+    expect(loadDraft()).toBeNull();
+    expect(stored.size).toBe(0);
+
+    stored.set('bloomed.leadDraft', '{');
+    expect(loadDraft()).toBeNull();
+  });
+
+  it('clearDraft removes the draft', () => {
+    saveDraft({ name: 'Sam' });
+    clearDraft();
+    expect(loadDraft()).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * leadDraft.ts — persists a partially completed LeadForm in localStorage.
+ *
+ * Answers are stored as the generic map the step engine works with, so new
+ * questions in data/leadFormSteps.ts are saved without changes here.
+ * Drafts expire a week after they were last edited.
+ */
+
+import type { Answers } from './formSteps';
+
+const STORAGE_KEY = 'bloomed.leadDraft';
+const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+interface StoredDraft {
+  answers: Answers;
+  savedAt: number;
+}
+
+function isEmpty(answers: Answers): boolean {
+  return Object.values(answers).every(v => v === null || v === '');
+}
+
+/** Returns the saved draft, or null if there is none or it has expired */
+export function loadDraft(): Answers | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const stored = JSON.parse(raw) as StoredDraft;
+    if (!stored.answers || typeof stored.answers !== 'object' || Date.now() - stored.savedAt > DRAFT_TTL_MS) {
+      clearDraft();
+      return null;
+    }
+    return stored.answers;
+  } catch {
+    return null;
+  }
+}
+
+export function saveDraft(answers: Answers): void {
+  if (isEmpty(answers)) {
+    clearDraft();
+    return;
+  }
+  try {
+    const stored: StoredDraft = { answers, savedAt: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or unavailable — the draft simply won't survive a reload
+  }
+}
+
+export function clearDraft(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // ignore
+  }
+}
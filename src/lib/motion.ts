@@ -0,0 +1,39 @@
+/**
+ * motion.ts — the visitor's motion preference (prefers-reduced-motion).
+ *
+ * Every animation reads it from here. With reduced motion, animations jump
+ * straight to their final state and nothing loops: no breathing, parallax,
+ * scan pulses or cursor attraction. The preference is live — components
+ * re-run their animation effects when it changes (useReducedMotion), and code
+ * outside React checks prefersReducedMotion() whenever it starts something.
+ */
+
+import { useSyncExternalStore } from 'react';
+
+const REDUCED_QUERY = '(prefers-reduced-motion: reduce)';
+
+/** false on the server */
+export function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && window.matchMedia(REDUCED_QUERY).matches;
+}
+
+/** Subscribe to OS setting changes; returns an unsubscribe function */
+export function onReducedMotionChange(listener: (reduced: boolean) => void): () => void {
+  const query = window.matchMedia(REDUCED_QUERY);
+  const onChange = () => listener(query.matches);
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+}
+
+/**
+ * The preference, re-rendering when it changes. Nothing renders differently
+ * because of it (only effects read it), so hydration can use the real value.
+ */
+export function useReducedMotion(): boolean {
+  return useSyncExternalStore(onReducedMotionChange, prefersReducedMotion, prefersReducedMotion);
+}
+
+/** For scrollTo() / scrollIntoView() */
+export function scrollBehavior(): ScrollBehavior {
+  return prefersReducedMotion() ? 'auto' : 'smooth';
+}
@@ -0,0 +1,70 @@
+/**
+ * palette.ts — the colours the SVG artwork and graph animations draw with.
+ *
+ * The values live in CSS variables (src/index.css, `:root` and `.dark`), so
+ * there are three ways to get at them:
+ *   - PALETTE_VARS   var() references, for markup: follows the theme by itself
+ *   - readPalette()  the current computed values, for GSAP, which can only
+ *                    tween concrete colours — call it again after a theme change
+ *   - LIGHT_PALETTE  literal light-theme values, for renderers without CSS
+ *                    variables (the build's Open Graph images)
+ */
+
+import type { CategoryColour } from '../data/graphTypes';
+
+export interface Palette {
+  /** Each knowledge-graph category is drawn in one of these; the blooms cycle through them too */
+  categories: Record<CategoryColour, string>;
+  /** Nodes and edges being learnt (graph "learning" phase) */
+  learning: string;
+  success: string;
+  edge: string;
+}
+
+/** Order the blooms cycle through the category colours; also the values graph categories may pick */
+export const CATEGORY_COLOURS: readonly CategoryColour[] = ['foundational', 'pathological', 'clinical', 'specialty'];
+
+export const PALETTE_VARS: Palette = {
+  categories: {
+    foundational: 'var(--color-foundational)',
+    pathological: 'var(--color-pathological)',
+    clinical:     'var(--color-clinical)',
+    specialty:    'var(--color-specialty)',
+  },
+  learning: 'var(--color-learning)',
+  success: 'var(--color-success)',
+  edge: 'var(--color-edge)',
+};
+
+/** `:root` in src/index.css, spelled out */
+export const LIGHT_PALETTE: Palette = {
+  categories: {
+    foundational: '#6366f1',
+    pathological: '#8b5cf6',
+    clinical:     '#3b82f6',
+    specialty:    '#06b6d4',
+  },
+  learning: '#f97316',
+  success: '#30a46c',
+  edge: 'rgba(44, 42, 38, 0.15)',
+};
+
+/**
+ * The palette as currently computed for `el`. Reading from an element inside
+ * the artwork respects local overrides (e.g. the graph on the dark panel).
+ */
+export function readPalette(el: Element = document.documentElement): Palette {
+  const style = getComputedStyle(el);
+  const read = (name: string) => style.getPropertyValue(name).trim();
+  return {
+    categories: {
+      foundational: read('--color-foundational'),
+      pathological: read('--color-pathological'),
+      clinical:     read('--color-clinical'),
+      specialty:    read('--color-specialty'),
+    },
+    learning: read('--color-learning'),
+    success: `rgb(${read('--color-success-rgb').split(' ').join(', ')})`,
+    edge: read('--color-edge'),
+  };
+}
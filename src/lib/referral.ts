@@ -0,0 +1,53 @@
+/**
+ * referral.ts — carries a `?ref=CODE` share link through to sign-up.
+ *
+ * The code is remembered in localStorage so a referred visitor who comes
+ * back a few days later (without the query string) still credits the
+ * person who shared the link.
+ */
+
+import { isReferralCode } from './waitlist';
+import { SITE_URL } from './site';
+
+const STORAGE_KEY = 'bloomed.referral';
+const REFERRAL_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+interface StoredReferral {
+  code: string;
+  savedAt: number;
+}
+
+/** Read `?ref=` from the current URL and remember it. Call once on app start. */
+export function captureReferral(): void {
+  const code = new URLSearchParams(window.location.search).get('ref')?.trim().toUpperCase();
+  if (!code || !isReferralCode(code)) return;
+
+  try {
+    const stored: StoredReferral = { code, savedAt: Date.now() };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or disabled — the referral just isn't credited
+  }
+}
+
+/** The remembered referral code, or null if there is none or it has expired */
+export function getReferralCode(): string | null {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+
+    const stored = JSON.parse(raw) as StoredReferral;
+    if (!isReferralCode(String(stored.code)) || Date.now() - stored.savedAt > REFERRAL_TTL_MS) {
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return stored.code;
+  } catch {
+    return null;
+  }
+}
+
+/** The link a sign-up shares to move up the queue */
+export function shareLink(code: string): string {
+  return `${SITE_URL}/?ref=${encodeURIComponent(code)}`;
+}
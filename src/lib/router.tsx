@@ -0,0 +1,288 @@
+/**
+ * router.tsx — a small History API router.
+ *
+ * Routes are data (see routes.ts): a path pattern and a page made with
+ * lazyPage(), so every page is its own chunk and is only fetched when first
+ * visited. `preload()` lets a caller resolve a page ahead of rendering.
+ *
+ * Patterns are literal segments plus `:name` params, e.g. '/u/:slug'.
+ * Navigation goes through <Link> / useNavigate(); browser back and forward
+ * are picked up from `popstate`. After each navigation the page scrolls to
+ * the URL's #hash (smoothly, unless motion is reduced) or, for new pages,
+ * back to the top — so '/#faq' works from any route.
+ *
+ * The same tree also renders in Node for the prerender (entry-server.tsx):
+ * pass <RouterProvider url> there, and preload the page before rendering.
+ */
+
+import { Component, createContext, Suspense, useContext, useEffect, useState } from 'react';
+import type { AnchorHTMLAttributes, ComponentType, MouseEvent, ReactElement, ReactNode } from 'react';
+import { scrollBehavior } from './motion';
+
+export type RouteParams = Record<string, string>;
+
+export interface RouterLocation {
+  pathname: string;
+  search: string;
+  hash: string;
+  /** Changes on every navigation, even to the same URL */
+  key: number;
+  action: 'initial' | 'push' | 'replace' | 'pop';
+}
+
+export interface NavigateOptions {
+  replace?: boolean;
+}
+
+interface RouterValue {
+  location: RouterLocation;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+const RouterContext = createContext<RouterValue | null>(null);
+
+function useRouter(): RouterValue {
+  const router = useContext(RouterContext);
+  if (!router) throw new Error('Router hooks must be used inside <RouterProvider>');
+  return router;
+}
+
+export function useLocation(): RouterLocation {
+  return useRouter().location;
+}
+
+export function useNavigate(): RouterValue['navigate'] {
+  return useRouter().navigate;
+}
+
+function readLocation(key: number, action: RouterLocation['action']): RouterLocation {
+  const { pathname, search, hash } = window.location;
+  return { pathname, search, hash, key, action };
+}
+
+interface RouterProviderProps {
+  /** Location to render when there is no window, e.g. '/u/monash' in the prerender */
+  url?: string;
+  children: ReactNode;
+}
+
+export function RouterProvider({ url, children }: RouterProviderProps) {
+  const [location, setLocation] = useState((): RouterLocation => {
+    if (url === undefined) return readLocation(0, 'initial');
+    const { pathname, search, hash } = new URL(url, 'http://localhost');
+    return { pathname, search, hash, key: 0, action: 'initial' };
+  });
+
+  useEffect(() => {
+    const onPopState = () => setLocation(prev => readLocation(prev.key + 1, 'pop'));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = (to: string, { replace = false }: NavigateOptions = {}) => {
+    window.history[replace ? 'replaceState' : 'pushState'](null, '', to);
+    setLocation(prev => readLocation(prev.key + 1, replace ? 'replace' : 'push'));
+  };
+
+  return <RouterContext.Provider value={{ location, navigate }}>{children}</RouterContext.Provider>;
+}
+
+// ── Links ──
+
+type LinkProps = Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> & { to: string };
+
+/** An <a> that navigates in-app for plain left clicks and behaves normally otherwise */
+export function Link({ to, onClick, target, ...rest }: LinkProps) {
+  const navigate = useNavigate();
+
+  const handleClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey || e.ctrlKey || e.shiftKey || e.altKey ||
+      (target && target !== '_self')
+    ) {
+      return;
+    }
+    e.preventDefault();
+    navigate(to);
+  };
+
+  return <a {...rest} href={to} target={target} onClick={handleClick} />;
+}
+
+// ── Lazy pages ──
+
+export type LazyPage<P> = ((props: P) => ReactElement) & {
+  /** Fetch the page's chunk; resolves once it can render without suspending */
+  preload: () => Promise<void>;
+};
+
+/**
+ * Like React.lazy, but the loaded component is cached on the page itself,
+ * so a preloaded page renders synchronously.
+ */
+export function lazyPage<P extends object>(load: () => Promise<{ default: ComponentType<P> }>): LazyPage<P> {
+  let loaded: ComponentType<P> | null = null;
+  let failure: unknown = null;
+  let pending: Promise<void> | null = null;
+
+  const preload = () =>
+    (pending ??= load().then(
+      module => { loaded = module.default; },
+      err => { failure = err; },
+    ));
+
+  function Page(props: P) {
+    if (failure) throw failure;
+    if (!loaded) throw preload();
+    const Loaded = loaded;
+    return <Loaded {...props} />;
+  }
+
+  return Object.assign(Page, { preload });
+}
+
+// ── Matching ──
+
+export interface SitemapEntry {
+  /** 0.0–1.0, relative to the site's other pages */
+  priority: number;
+}
+
+export interface RouteDef<P> {
+  /** '/privacy', '/u/:slug' — trailing slashes are ignored */
+  path: string;
+  page: LazyPage<P & { params: RouteParams }>;
+  /** Every params value a `:param` path can take, for the prerender and sitemap */
+  entries?: () => RouteParams[];
+  /** Listing in sitemap.xml (scripts/vite-plugin-sitemap.ts); false leaves the route out */
+  sitemap?: SitemapEntry | false;
+}
+
+function segments(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+export function matchPath(pattern: string, pathname: string): RouteParams | null {
+  const expected = segments(pattern);
+  const actual = segments(pathname);
+  if (expected.length !== actual.length) return null;
+
+  const params: RouteParams = {};
+  for (let i = 0; i < expected.length; i++) {
+    if (expected[i].startsWith(':')) {
+      try {
+        params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+      } catch {
+        return null;
+      }
+    } else if (expected[i] !== actual[i]) {
+      return null;
+    }
+  }
+  return params;
+}
+
+export function matchRoute<P>(
+  routes: readonly RouteDef<P>[],
+  pathname: string,
+): { route: RouteDef<P>; params: RouteParams } | null {
+  for (const route of routes) {
+    const params = matchPath(route.path, pathname);
+    if (params) return { route, params };
+  }
+  return null;
+}
+
+/** Fill in a pattern's `:name` segments: buildPath('/u/:slug', { slug: 'uq' }) → '/u/uq' */
+export function buildPath(pattern: string, params: RouteParams = {}): string {
+  const filled = segments(pattern).map(segment =>
+    segment.startsWith(':') ? encodeURIComponent(params[segment.slice(1)] ?? '') : segment,
+  );
+  return `/${filled.join('/')}`;
+}
+
+/**
+ * Every concrete path the route table can serve: static paths as-is and
+ * parameterised ones expanded from `entries`. Routes without entries are skipped.
+ */
+export function routePaths<P>(routes: readonly RouteDef<P>[]): string[] {
+  return routes.flatMap(route => {
+    if (!route.path.includes(':')) return [buildPath(route.path)];
+    return route.entries?.().map(params => buildPath(route.path, params)) ?? [];
+  });
+}
+
+/** Fetch the page that `pathname` renders, so it renders (or hydrates) without suspending */
+export function preloadRoute<P>(
+  routes: readonly RouteDef<P>[],
+  notFound: LazyPage<P & { params: RouteParams }>,
+  pathname: string,
+): Promise<void> {
+  return (matchRoute(routes, pathname)?.route.page ?? notFound).preload();
+}
+
+// ── Rendering ──
+
+/** Scroll to the #hash target, or to the top when arriving on a new page */
+function ScrollOnNavigate({ location }: { location: RouterLocation }) {
+  useEffect(() => {
+    if (location.hash) {
+      document.getElementById(decodeURIComponent(location.hash.slice(1)))?.scrollIntoView({ behavior: scrollBehavior() });
+    } else if (location.action === 'push' || location.action === 'replace') {
+      window.scrollTo({ top: 0 });
+    }
+  }, [location.key]);
+
+  return null;
+}
+
+class PageErrorBoundary extends Component<{ children: ReactNode; pathname: string }, { error: unknown }> {
+  state = { error: null as unknown };
+
+  static getDerivedStateFromError(error: unknown) {
+    return { error };
+  }
+
+  componentDidUpdate(prev: { pathname: string }) {
+    if (prev.pathname !== this.props.pathname && this.state.error) this.setState({ error: null });
+  }
+
+  render() {
+    if (!this.state.error) return this.props.children;
+    // Usually a chunk that no longer exists after a deploy — a reload fetches the new build
+    return (
+      <main className="min-h-screen flex flex-col items-center justify-center px-6 text-center">
+        <p className="text-body text-primary mb-4">This page couldn't be loaded.</p>
+        <button type="button" onClick={() => window.location.reload()} className="btn-primary text-body-sm px-5 py-2.5">
+          Reload
+        </button>
+      </main>
+    );
+  }
+}
+
+interface RoutesProps<P> {
+  routes: readonly RouteDef<P>[];
+  /** Rendered when no route matches */
+  notFound: LazyPage<P & { params: RouteParams }>;
+  /** Extra props passed to every page, alongside its params */
+  pageProps: P;
+}
+
+export function Routes<P extends object>({ routes, notFound, pageProps }: RoutesProps<P>) {
+  const location = useLocation();
+  const match = matchRoute(routes, location.pathname);
+  const Page = match?.route.page ?? notFound;
+
+  return (
+    <PageErrorBoundary pathname={location.pathname}>
+      <Suspense fallback={<div className="min-h-screen" />}>
+        <Page {...pageProps} params={match?.params ?? {}} />
+        <ScrollOnNavigate location={location} />
+      </Suspense>
+    </PageErrorBoundary>
+  );
+}
@@ -0,0 +1,21 @@
+/** Canonical public origin — used for share links and absolute URLs */
+export const SITE_URL = 'https://bloomed.study';
+
+export const PRIVACY_POLICY_PATH = '/privacy';
+
+/**
+ * Bump whenever the privacy policy text changes materially. Stored with each
+ * sign-up's consent, and a new version re-asks for cookie/analytics consent.
+ */
+export const PRIVACY_POLICY_VERSION = '2026-10-19';
+
+export const SITE_NAME = 'Bloomed';
+
+/** Shared by the site-wide meta description and the Organization / Product JSON-LD */
+export const SITE_DESCRIPTION =
+  'Answer questions. We spot the gaps. You get exactly what you need to fill them. Built for Australian medical students and junior doctors.';
+
+/** Open Graph / Twitter card image for pages without their own */
+export const DEFAULT_OG_IMAGE = '/bloomed-og-image.png';
+
+export const CONTACT_EMAIL = 'hello@bloomed.study';
@@ -0,0 +1,55 @@
+/**
+ * structuredData.ts — schema.org nodes for the JSON-LD in useHead().
+ *
+ * Built from the same data the page renders (FAQS, site.ts), so the markup
+ * can't drift from what's on screen. Nodes reference each other by @id.
+ *
+ * There is no Product node: until there's a price (or reviews) to state,
+ * Google ignores Product markup and Search Console reports it as invalid.
+ */
+
+import type { Faq } from '../data/faqs';
+import { absoluteUrl } from './head';
+import type { JsonLd } from './head';
+import { CONTACT_EMAIL, DEFAULT_OG_IMAGE, SITE_DESCRIPTION, SITE_NAME, SITE_URL } from './site';
+
+const ORGANIZATION_ID = `${SITE_URL}/#organization`;
+const WEBSITE_ID = `${SITE_URL}/#website`;
+
+export function organization(): JsonLd {
+  return {
+    '@type': 'Organization',
+    '@id': ORGANIZATION_ID,
+    name: SITE_NAME,
+    url: absoluteUrl('/'),
+    logo: absoluteUrl('/logo.png'),
+    email: CONTACT_EMAIL,
+    areaServed: 'AU',
+  };
+}
+
+export function webSite(): JsonLd {
+  return {
+    '@type': 'WebSite',
+    '@id': WEBSITE_ID,
+    name: SITE_NAME,
+    url: absoluteUrl('/'),
+    description: SITE_DESCRIPTION,
+    inLanguage: 'en-AU',
+    image: absoluteUrl(DEFAULT_OG_IMAGE),
+    publisher: { '@id': ORGANIZATION_ID },
+    audience: { '@type': 'EducationalAudience', educationalRole: 'student' },
+  };
+}
+
+export function faqPage(faqs: readonly Faq[], path: string): JsonLd {
+  return {
+    '@type': 'FAQPage',
+    '@id': `${absoluteUrl(path)}#faq`,
+    mainEntity: faqs.map(faq => ({
+      '@type': 'Question',
+      name: faq.q,
+      acceptedAnswer: { '@type': 'Answer', text: faq.a },
+    })),
+  };
+}
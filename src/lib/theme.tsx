@@ -0,0 +1,98 @@
+/**
+ * theme.tsx — light / dark / system colour theme.
+ *
+ * The theme is the `dark` class on <html>, which switches the CSS variables
+ * in src/index.css. An inline script in index.html sets it before first
+ * paint from the same localStorage key, so prerendered pages don't flash;
+ * <ThemeProvider> keeps it in step with the toggle in Nav and, in 'system'
+ * mode, with the OS setting.
+ */
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { ReactNode } from 'react';
+
+/** In the order ThemeToggle cycles through them */
+export const THEME_MODES = ['system', 'light', 'dark'] as const;
+
+export type ThemeMode = typeof THEME_MODES[number];
+
+export type Theme = 'light' | 'dark';
+
+/** Also read by the inline script in index.html. Absent means 'system'. */
+const STORAGE_KEY = 'theme';
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+function storedMode(): ThemeMode {
+  try {
+    const mode = localStorage.getItem(STORAGE_KEY);
+    return mode === 'light' || mode === 'dark' ? mode : 'system';
+  } catch {
+    return 'system';
+  }
+}
+
+function storeMode(mode: ThemeMode): void {
+  try {
+    if (mode === 'system') localStorage.removeItem(STORAGE_KEY);
+    else localStorage.setItem(STORAGE_KEY, mode);
+  } catch {
+    // The choice lasts for this page view only
+  }
+}
+
+function resolveTheme(mode: ThemeMode): Theme {
+  if (mode !== 'system') return mode;
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+}
+
+/** What index.html's script (or the last switch) applied; 'light' on the server */
+function appliedTheme(): Theme {
+  if (typeof document === 'undefined') return 'light';
+  return document.documentElement.classList.contains('dark') ? 'dark' : 'light';
+}
+
+interface ThemeState {
+  mode: ThemeMode;
+  /** The theme on screen — `mode` with 'system' resolved */
+  theme: Theme;
+  setMode: (mode: ThemeMode) => void;
+}
+
+const ThemeContext = createContext<ThemeState>({ mode: 'system', theme: 'light', setMode: () => {} });
+
+export function ThemeProvider({ children }: { children: ReactNode }) {
+  // The stored mode is only read after mount: prerendered HTML renders 'system'
+  const [mode, setModeState] = useState<ThemeMode>('system');
+  const [theme, setTheme] = useState<Theme>(appliedTheme);
+
+  const apply = useCallback((next: ThemeMode) => {
+    const resolved = resolveTheme(next);
+    // Switch the class before re-rendering, not in an effect: child effects run
+    // first and read the new CSS variables (readPalette)
+    document.documentElement.classList.toggle('dark', resolved === 'dark');
+    setModeState(next);
+    setTheme(resolved);
+  }, []);
+
+  useEffect(() => apply(storedMode()), [apply]);
+
+  useEffect(() => {
+    if (mode !== 'system') return;
+    const query = window.matchMedia(DARK_QUERY);
+    const onChange = () => apply('system');
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, [mode, apply]);
+
+  const setMode = useCallback((next: ThemeMode) => {
+    storeMode(next);
+    apply(next);
+  }, [apply]);
+
+  const value = useMemo(() => ({ mode, theme, setMode }), [mode, theme, setMode]);
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+}
+
+export function useTheme(): ThemeState {
+  return useContext(ThemeContext);
+}
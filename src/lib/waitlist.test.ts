@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { JUNIOR_DOCTOR_LEVEL, NO_UNIVERSITY, validateSubmission } from './waitlist';
+
+const valid = {
+  lister_name: 'Sam Lee',
+  lister_email: 'sam@example.com',
+  lister_university: 'Bond University',
+  lister_level: 'Clinical',
+  lister_why: '',
+  lister_beta: true,
+  lister_consent_at: '2026-10-19T09:00:00.000Z',
+  lister_policy_version: '2026-10-19',
+};
+
+describe('validateSubmission', () => {
+  it('accepts a complete student submission', () => {
+    expect(validateSubmission(valid)).toEqual({ ok: true, value: valid });
+  });
+
+  it('trims text and normalises the email', () => {
+    const result = validateSubmission({ ...valid, lister_name: '  Sam Lee ', lister_email: ' Sam@Example.COM ' });
+    expect(result.ok && result.value).toMatchObject({ lister_name: 'Sam Lee', lister_email: 'sam@example.com' });
+  });
+
+  it('reports every missing field at once', () => {
+    const result = validateSubmission({});
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual({
+      lister_name: 'Required',
+      lister_email: 'Required',
+      lister_university: 'Required',
+      lister_level: 'Required',
+      lister_beta: 'Must be true or false',
+      lister_consent_at: 'Consent to contact is required',
+      lister_policy_version: 'Required',
+    });
+  });
+
+  it.each([null, 'text', 42, []])('treats %j as an empty submission', input => {
+    expect(validateSubmission(input).ok).toBe(false);
+  });
+
+  it('rejects whitespace-only and over-long text', () => {
+    const result = validateSubmission({ ...valid, lister_name: '   ', lister_why: 'x'.repeat(201) });
+    expect(!result.ok && result.errors).toEqual({
+      lister_name: 'Required',
+      lister_why: 'Must be at most 200 characters',
+    });
+  });
+
+  it('rejects non-string text', () => {
+    const result = validateSubmission({ ...valid, lister_name: 7 });
+    expect(!result.ok && result.errors).toEqual({ lister_name: 'Must be a string' });
+  });
+
+  it.each(['sam', 'sam@example', 'sam @example.com', '@example.com'])('rejects the email %j', email => {
+    const result = validateSubmission({ ...valid, lister_email: email });
+    expect(!result.ok && result.errors.lister_email).toBe('Invalid email address');
+  });
+
+  it('rejects an unknown university or degree level', () => {
+    const result = validateSubmission({ ...valid, lister_university: 'Hogwarts', lister_level: 'Year 9' });
+    expect(!result.ok && result.errors).toEqual({
+      lister_university: 'Unknown university',
+      lister_level: 'Unknown degree level',
+    });
+  });
+
+  it('allows N/A as the university only for junior doctors', () => {
+    const junior = { ...valid, lister_level: JUNIOR_DOCTOR_LEVEL, lister_university: NO_UNIVERSITY };
+    expect(validateSubmission(junior).ok).toBe(true);
+
+    const student = validateSubmission({ ...valid, lister_university: NO_UNIVERSITY });
+    expect(!student.ok && student.errors).toEqual({ lister_university: 'Unknown university' });
+  });
+
+  it('requires beta to be a boolean', () => {
+    const result = validateSubmission({ ...valid, lister_beta: 'yes' });
+    expect(!result.ok && result.errors).toEqual({ lister_beta: 'Must be true or false' });
+  });
+
+  it('rejects a consent time that is not a timestamp', () => {
+    const result = validateSubmission({ ...valid, lister_consent_at: 'yesterday' });
+    expect(!result.ok && result.errors).toEqual({ lister_consent_at: 'Invalid timestamp' });
+  });
+
+  it('upper-cases a referral code and rejects malformed ones', () => {
+    const ok = validateSubmission({ ...valid, lister_ref: 'abcd2345' });
+    expect(ok.ok && ok.value.lister_ref).toBe('ABCD2345');
+
+    // 0, O, 1 and I are left out of the alphabet
+    const bad = validateSubmission({ ...valid, lister_ref: 'ABCD0123' });
+    expect(!bad.ok && bad.errors).toEqual({ lister_ref: 'Invalid referral code' });
+  });
+
+  it('accepts attribution', () => {
+    const attribution = {
+      utm_source: 'newsletter', utm_medium: null, utm_campaign: null, utm_term: null, utm_content: null,
+      referrer: null, landed_at: '2026-10-19T08:55:00.000Z', cta: 'hero', school: 'bond',
+    };
+    const ok = validateSubmission({ ...valid, lister_attribution: attribution });
+    expect(ok.ok && ok.value.lister_attribution).toEqual(attribution);
+  });
+
+  it('drops a malformed attribution but keeps the sign-up', () => {
+    const attribution = {
+      utm_source: 'newsletter', utm_medium: null, utm_campaign: null, utm_term: null, utm_content: null,
+      referrer: null, landed_at: '2026-10-19T08:55:00.000Z', cta: 'hero', school: 'bond',
+    };
+    const broken = [
+      { ...attribution, cta: 'footer' },
+      { ...attribution, school: 'nowhere' },
+      { ...attribution, landed_at: 'soon' },
+      { utm_source: 'an older shape' },
+      'not an object',
+    ];
+    for (const lister_attribution of broken) {
+      expect(validateSubmission({ ...valid, lister_attribution })).toEqual({ ok: true, value: valid });
+    }
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * waitlist.ts — the waitlist submission schema, shared by LeadForm and the
+ * Worker handler (worker/waitlist.ts).
+ *
+ * Keep this module free of DOM and Worker APIs: it is type-checked and
+ * bundled for both environments.
+ */
+
+import { findSchoolBySlug, MED_SCHOOLS } from '../data/medSchools';
+import type { MedSchoolName } from '../data/medSchools';
+
+export const ROLES = [
+  { value: 'student', label: 'Medical Student' },
+  { value: 'junior',  label: 'Junior Doctor' },
+] as const;
+
+export type Role = typeof ROLES[number]['value'];
+
+export const LEVELS = [
+  { value: 'Pre-clinical', label: 'Pre-clinical', desc: 'Years 1–2, foundational sciences' },
+  { value: 'Clinical', label: 'Clinical', desc: 'Years 3+, hospital rotations' },
+  { value: 'Graduate', label: 'Graduate entry', desc: 'Accelerated / post-grad pathway' },
+] as const;
+
+export type Level = typeof LEVELS[number]['value'];
+
+/** LeadForm's university options: every school in data/medSchools.ts, then 'Other' */
+export const AUSTRALIAN_MED_SCHOOLS: readonly MedSchool[] = [...MED_SCHOOLS.map(school => school.name), 'Other'];
+
+export type MedSchool = MedSchoolName | 'Other';
+
+/** lister_level recorded for junior doctors, who skip the degree-level step */
+export const JUNIOR_DOCTOR_LEVEL = 'Junior doctor';
+
+/** lister_university recorded when no university was asked for */
+export const NO_UNIVERSITY = 'N/A';
+
+/** The calls to action that open LeadForm */
+export const CTA_SOURCES = ['nav', 'hero', 'cta'] as const;
+
+export type CtaSource = typeof CTA_SOURCES[number];
+
+export const UTM_PARAMS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'] as const;
+
+export type UtmParam = typeof UTM_PARAMS[number];
+
+/** Where a sign-up came from — first-touch values for the browser session */
+export type Attribution = Record<UtmParam, string | null> & {
+  /** External page that linked here; null for direct visits */
+  referrer: string | null;
+  /** ISO timestamp of the first page view this session */
+  landed_at: string;
+  /** Which call to action first opened the form */
+  cta: CtaSource | null;
+  /** Slug of the /u/<slug> school page the visitor landed on, if any */
+  school: string | null;
+};
+
+export interface WaitlistSubmission {
+  lister_name: string;
+  lister_email: string;
+  lister_university: MedSchool | typeof NO_UNIVERSITY;
+  lister_level: Level | typeof JUNIOR_DOCTOR_LEVEL;
+  lister_why: string;
+  lister_beta: boolean;
+  /** When the person ticked consent-to-contact (ISO timestamp) */
+  lister_consent_at: string;
+  /** PRIVACY_POLICY_VERSION (src/lib/site.ts) they agreed to */
+  lister_policy_version: string;
+  /** Referral code from the ?ref= link that brought this person here */
+  lister_ref?: string;
+  lister_attribution?: Attribution;
+}
+
+export type SubmissionErrors = Partial<Record<keyof WaitlistSubmission, string>>;
+
+export type ValidationResult =
+  | { ok: true; value: WaitlistSubmission }
+  | { ok: false; errors: SubmissionErrors };
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_TEXT = 200;
+const MAX_URL = 500;
+
+/** Referral codes are 8 characters from an alphabet without look-alikes (no 0/O, 1/I) */
+export const REFERRAL_CODE_RE = /^[A-HJ-NP-Z2-9]{8}$/;
+
+export function isReferralCode(code: string): boolean {
+  return REFERRAL_CODE_RE.test(code);
+}
+
+export function normaliseEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_RE.test(email.trim());
+}
+
+/** The answers LeadForm collects, before they are mapped onto lister_* fields */
+export interface WaitlistAnswers {
+  name: string;
+  email: string;
+  role: Role | '';
+  university: string;
+  level: string;
+  beta: boolean | null;
+  /** Consent to contact, with the time it was given and the policy it refers to */
+  consent: { at: string; policyVersion: string } | null;
+  /** Referral code captured from the landing URL, if any */
+  ref?: string | null;
+  attribution?: Attribution | null;
+}
+
+/** Map form answers onto the submission shape. Run the result through validateSubmission. */
+export function buildSubmission(answers: WaitlistAnswers): WaitlistSubmission {
+  return {
+    lister_name: answers.name.trim(),
+    lister_email: normaliseEmail(answers.email),
+    lister_university: (answers.university || NO_UNIVERSITY) as WaitlistSubmission['lister_university'],
+    lister_level: (answers.role === 'junior' ? JUNIOR_DOCTOR_LEVEL : answers.level) as WaitlistSubmission['lister_level'],
+    lister_why: '',
+    lister_beta: answers.beta === true,
+    lister_consent_at: answers.consent?.at ?? '',
+    lister_policy_version: answers.consent?.policyVersion ?? '',
+    ...(answers.ref && { lister_ref: answers.ref }),
+    ...(answers.attribution && { lister_attribution: answers.attribution }),
+  };
+}
+
+/** Check an untrusted attribution object; returns null if any value is malformed */
+function parseAttribution(input: unknown): Attribution | null {
+  if (typeof input !== 'object' || input === null) return null;
+  const raw = input as Record<string, unknown>;
+
+  const optional = (value: unknown, max: number): string | null | undefined => {
+    if (value === undefined || value === null || value === '') return null;
+    return typeof value === 'string' && value.length <= max ? value : undefined;
+  };
+
+  const utm = {} as Record<UtmParam, string | null>;
+  for (const param of UTM_PARAMS) {
+    const value = optional(raw[param], MAX_TEXT);
+    if (value === undefined) return null;
+    utm[param] = value;
+  }
+
+  const referrer = optional(raw.referrer, MAX_URL);
+  const school = optional(raw.school, MAX_TEXT);
+  const cta = raw.cta ?? null;
+  const landedAt = raw.landed_at;
+
+  if (referrer === undefined) return null;
+  if (school === undefined || (school !== null && !findSchoolBySlug(school))) return null;
+  if (cta !== null && !(CTA_SOURCES as readonly unknown[]).includes(cta)) return null;
+  if (typeof landedAt !== 'string' || Number.isNaN(Date.parse(landedAt))) return null;
+
+  return { ...utm, referrer, landed_at: landedAt, cta: cta as CtaSource | null, school };
+}
+
+/**
+ * Validate an untrusted payload. Strings are trimmed and the email is
+ * normalised, so `value` is safe to store as-is. A malformed
+ * lister_attribution is left out of `value`, never reported as an error.
+ */
+export function validateSubmission(input: unknown): ValidationResult {
+  const raw = (typeof input === 'object' && input !== null ? input : {}) as Record<string, unknown>;
+  const errors: SubmissionErrors = {};
+
+  const text = (key: keyof WaitlistSubmission, required: boolean): string => {
+    const value = raw[key];
+    if (value === undefined || value === null) {
+      if (required) errors[key] = 'Required';
+      return '';
+    }
+    if (typeof value !== 'string') {
+      errors[key] = 'Must be a string';
+      return '';
+    }
+    const trimmed = value.trim();
+    if (required && !trimmed) errors[key] = 'Required';
+    else if (trimmed.length > MAX_TEXT) errors[key] = `Must be at most ${MAX_TEXT} characters`;
+    return trimmed;
+  };
+
+  const name = text('lister_name', true);
+  const email = normaliseEmail(text('lister_email', true));
+  const university = text('lister_university', true);
+  const level = text('lister_level', true);
+  const why = text('lister_why', false);
+  const consentAt = text('lister_consent_at', true);
+  const policyVersion = text('lister_policy_version', true);
+
+  if (email && !errors.lister_email && !EMAIL_RE.test(email)) {
+    errors.lister_email = 'Invalid email address';
+  }
+
+  const isJunior = level === JUNIOR_DOCTOR_LEVEL;
+  if (level && !errors.lister_level && !isJunior && !LEVELS.some(l => l.value === level)) {
+    errors.lister_level = 'Unknown degree level';
+  }
+
+  // Students must pick a school; junior doctors are never asked, so N/A is allowed
+  const isKnownSchool = (AUSTRALIAN_MED_SCHOOLS as readonly string[]).includes(university);
+  if (university && !errors.lister_university && !isKnownSchool && !(isJunior && university === NO_UNIVERSITY)) {
+    errors.lister_university = 'Unknown university';
+  }
+
+  if (typeof raw.lister_beta !== 'boolean') {
+    errors.lister_beta = 'Must be true or false';
+  }
+
+  if (errors.lister_consent_at === 'Required') {
+    errors.lister_consent_at = 'Consent to contact is required';
+  } else if (consentAt && !errors.lister_consent_at && Number.isNaN(Date.parse(consentAt))) {
+    errors.lister_consent_at = 'Invalid timestamp';
+  }
+
+  const ref = text('lister_ref', false).toUpperCase();
+  if (ref && !errors.lister_ref && !isReferralCode(ref)) {
+    errors.lister_ref = 'Invalid referral code';
+  }
+
+  // Attribution is best-effort: a malformed one (stale or tampered session
+  // storage, an older shape) is dropped rather than costing the sign-up
+  const attribution = raw.lister_attribution == null ? null : parseAttribution(raw.lister_attribution);
+
+  if (Object.keys(errors).length > 0) return { ok: false, errors };
+
+  return {
+    ok: true,
+    value: {
+      lister_name: name,
+      lister_email: email,
+      lister_university: university as WaitlistSubmission['lister_university'],
+      lister_level: level as WaitlistSubmission['lister_level'],
+      lister_why: why,
+      lister_beta: raw.lister_beta as boolean,
+      lister_consent_at: consentAt,
+      lister_policy_version: policyVersion,
+      ...(ref && { lister_ref: ref }),
+      ...(attribution && { lister_attribution: attribution }),
+    },
+  };
+}
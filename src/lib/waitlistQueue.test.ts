@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { WaitlistSubmission } from './waitlist';
+
+const joinWaitlist = vi.fn();
+
+vi.mock('./api', async importOriginal => ({
+  ...await importOriginal<typeof import('./api')>(),
+  joinWaitlist: (submission: WaitlistSubmission) => joinWaitlist(submission),
+}));
+
+const KEY = 'bloomed.waitlistQueue';
+
+let stored: Map<string, string>;
+let queue: typeof import('./waitlistQueue');
+let WaitlistError: typeof import('./api').WaitlistError;
+
+function submission(email: string, name = 'Sam'): WaitlistSubmission {
+  return {
+    lister_name: name,
+    lister_email: email,
+    lister_university: 'Bond University',
+    lister_level: 'Clinical',
+    lister_why: '',
+    lister_beta: true,
+    lister_consent_at: '2026-10-19T09:00:00.000Z',
+    lister_policy_version: '2026-10-19',
+  };
+}
+
+function entries(): { submission: WaitlistSubmission; attempts: number; nextAttemptAt: number }[] {
+  return JSON.parse(stored.get(KEY) ?? '[]');
+}
+
+/** A promise that settles when the test says so */
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(r => { resolve = r; });
+  return { promise, resolve };
+}
+
+beforeEach(async () => {
+  stored = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => { stored.set(key, value); },
+    removeItem: (key: string) => { stored.delete(key); },
+  });
+  vi.useFakeTimers();
+  vi.setSystemTime(new Date('2026-10-19T09:00:00Z'));
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  joinWaitlist.mockReset();
+
+  // The queue keeps its flushing state at module scope: start each test afresh
+  vi.resetModules();
+  queue = await import('./waitlistQueue');
+  ({ WaitlistError } = await import('./api'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('waitlistQueue', () => {
+  it('retries on a doubling backoff and removes the entry once it goes through', async () => {
+    joinWaitlist.mockRejectedValue(new WaitlistError('network'));
+    queue.enqueueSubmission(submission('sam@example.com'));
+    expect(entries()[0]).toMatchObject({ attempts: 1, nextAttemptAt: Date.now() + 15_000 });
+
+    await vi.advanceTimersByTimeAsync(15_000);
+    expect(joinWaitlist).toHaveBeenCalledTimes(1);
+    expect(entries()[0]).toMatchObject({ attempts: 2, nextAttemptAt: Date.now() + 30_000 });
+
+    await vi.advanceTimersByTimeAsync(29_999);
+    expect(joinWaitlist).toHaveBeenCalledTimes(1);
+
+    joinWaitlist.mockResolvedValue(null);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(joinWaitlist).toHaveBeenCalledTimes(2);
+    expect(stored.has(KEY)).toBe(false);
+  });
+
+  it('caps the backoff at 30 minutes', async () => {
+    joinWaitlist.mockRejectedValue(new WaitlistError('server'));
+    queue.enqueueSubmission(submission('sam@example.com'));
+
+    for (let i = 0; i < 10; i++) await queue.flushQueue(true);
+    expect(entries()[0].nextAttemptAt - Date.now()).toBe(30 * 60_000);
+  });
+
+  it('drops an entry the server rejects outright', async () => {
+    joinWaitlist.mockRejectedValue(new WaitlistError('duplicate'));
+    queue.enqueueSubmission(submission('sam@example.com'));
+
+    await queue.flushQueue(true);
+    expect(stored.has(KEY)).toBe(false);
+  });
+
+  it('gives up on an entry after 50 attempts', async () => {
+    joinWaitlist.mockRejectedValue(new WaitlistError('network'));
+    queue.enqueueSubmission(submission('sam@example.com'));
+
+    for (let i = 0; i < 48; i++) await queue.flushQueue(true);
+    expect(entries()[0].attempts).toBe(49);
+
+    await queue.flushQueue(true);
+    expect(entries()[0].attempts).toBe(50);
+
+    await queue.flushQueue(true);
+    expect(stored.has(KEY)).toBe(false);
+  });
+
+  it('keeps a newer entry for the same email queued while the older one was being sent', async () => {
+    const sending = deferred();
+    joinWaitlist.mockReturnValueOnce(sending.promise);
+    queue.enqueueSubmission(submission('sam@example.com', 'Old'));
+
+    const flushed = queue.flushQueue(true);
+    vi.setSystemTime(Date.now() + 1);
+    queue.enqueueSubmission(submission('sam@example.com', 'New'));
+    sending.resolve();
+    await flushed;
+
+    expect(entries().map(e => e.submission.lister_name)).toEqual(['New']);
+  });
+
+  it('runs a forced flush asked for during a backoff flush once that one finishes', async () => {
+    joinWaitlist.mockRejectedValue(new WaitlistError('network'));
+    queue.enqueueSubmission(submission('a@example.com'));
+    queue.enqueueSubmission(submission('b@example.com'));
+
+    // Only a@ is due when the timer fires; b@ is pushed back
+    const due = entries();
+    due[0].nextAttemptAt = Date.now();
+    due[1].nextAttemptAt = Date.now() + 60 * 60_000;
+    stored.set(KEY, JSON.stringify(due));
+
+    const sending = deferred();
+    joinWaitlist.mockReturnValueOnce(sending.promise.then(() => { throw new WaitlistError('network'); }));
+    const timed = queue.flushQueue();
+
+    joinWaitlist.mockResolvedValue(null);
+    await queue.flushQueue(true);
+    sending.resolve();
+    await timed;
+
+    expect(joinWaitlist.mock.calls.map(([s]) => s.lister_email)).toEqual([
+      'a@example.com',
+      'a@example.com',
+      'b@example.com',
+    ]);
+    expect(stored.has(KEY)).toBe(false);
+  });
+});
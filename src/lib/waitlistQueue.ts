@@ -0,0 +1,161 @@
+/**
+ * waitlistQueue.ts — local retry queue for waitlist sign-ups.
+ *
+ * When /api/waitlist can't be reached (flaky hospital Wi-Fi, server error),
+ * the validated submission is saved to localStorage instead of being lost.
+ * The queue is flushed on page load, whenever the browser comes back online,
+ * and on a backoff timer while entries are still pending.
+ *
+ * Only transient failures are queued: 'invalid' and 'duplicate' responses
+ * are final, so those entries are dropped rather than retried forever. An
+ * entry still failing after MAX_ATTEMPTS tries (roughly a day of backoff)
+ * is dropped too.
+ */
+
+import { joinWaitlist, WaitlistError } from './api';
+import type { WaitlistSubmission } from './waitlist';
+
+const STORAGE_KEY = 'bloomed.waitlistQueue';
+
+const BASE_DELAY_MS = 15_000;
+const MAX_DELAY_MS = 30 * 60_000;
+const MAX_ATTEMPTS = 50;
+
+interface QueuedSubmission {
+  submission: WaitlistSubmission;
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+let flushing = false;
+/** A forced flush asked for while another was running; it runs once that pass ends */
+let forcePending = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+function read(): QueuedSubmission[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function write(queue: QueuedSubmission[]): void {
+  if (queue.length === 0) localStorage.removeItem(STORAGE_KEY);
+  else localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+}
+
+/** The same queued entry — not just the same email, which a newer entry may share */
+function isSameEntry(a: QueuedSubmission, b: QueuedSubmission): boolean {
+  return a.queuedAt === b.queuedAt && a.submission.lister_email === b.submission.lister_email;
+}
+
+function backoff(attempts: number): number {
+  return Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+}
+
+/** True for failures worth retrying later — anything but a definitive rejection */
+export function isRetryable(err: unknown): boolean {
+  return !(err instanceof WaitlistError) || err.code === 'network' || err.code === 'server';
+}
+
+/**
+ * Save a submission for later. A newer submission for the same email replaces
+ * the older one. Returns false if storage is unavailable (e.g. private mode).
+ */
+export function enqueueSubmission(submission: WaitlistSubmission): boolean {
+  const now = Date.now();
+  try {
+    const queue = read().filter(q => q.submission.lister_email !== submission.lister_email);
+    queue.push({ submission, queuedAt: now, attempts: 1, nextAttemptAt: now + backoff(1) });
+    write(queue);
+  } catch {
+    return false;
+  }
+  scheduleRetry();
+  return true;
+}
+
+/**
+ * Try every due entry once. Pass `force` to ignore backoff — used when the
+ * browser reports it has just come back online. Forcing while a flush is
+ * already running makes it go round again, forced, when it finishes.
+ */
+export async function flushQueue(force = false): Promise<void> {
+  if (flushing) {
+    forcePending ||= force;
+    return;
+  }
+  flushing = true;
+
+  try {
+    let pass = force;
+    do {
+      forcePending = false;
+      await flushDue(pass);
+      pass = true;
+    } while (forcePending);
+  } catch (err) {
+    console.error('Waitlist queue flush failed:', err);
+  } finally {
+    flushing = false;
+    forcePending = false;
+    scheduleRetry();
+  }
+}
+
+async function flushDue(force: boolean): Promise<void> {
+  const now = Date.now();
+  for (const entry of read()) {
+    if (!force && entry.nextAttemptAt > now) continue;
+
+    let done = true;
+    try {
+      await joinWaitlist(entry.submission);
+    } catch (err) {
+      if (!isRetryable(err)) console.warn('Dropping queued waitlist submission:', err);
+      else if (entry.attempts >= MAX_ATTEMPTS) console.warn('Giving up on queued waitlist submission:', err);
+      else done = false;
+    }
+
+    // Re-read so entries queued while this request was in flight survive.
+    // If a newer submission replaced this one meanwhile, leave it be.
+    const queue = read();
+    const index = queue.findIndex(q => isSameEntry(q, entry));
+    if (index === -1) continue;
+    if (done) {
+      queue.splice(index, 1);
+    } else {
+      const attempts = entry.attempts + 1;
+      queue[index] = { ...entry, attempts, nextAttemptAt: Date.now() + backoff(attempts) };
+    }
+    write(queue);
+  }
+}
+
+function scheduleRetry(): void {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+
+  const queue = read();
+  if (queue.length === 0) return;
+
+  const next = Math.min(...queue.map(q => q.nextAttemptAt));
+  retryTimer = setTimeout(() => { flushQueue(); }, Math.max(0, next - Date.now()));
+}
+
+/** Flush anything left from a previous visit and retry when connectivity returns. */
+export function startWaitlistQueue(): () => void {
+  const onOnline = () => { flushQueue(true); };
+  window.addEventListener('online', onOnline);
+  flushQueue();
+
+  return () => {
+    window.removeEventListener('online', onOnline);
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
@@ -1,10 +1,24 @@
 import { StrictMode } from 'react';
-import { createRoot } from 'react-dom/client';
+import { createRoot, hydrateRoot } from 'react-dom/client';
 import './index.css';
 import App from './App';
+import { preloadRoute } from './lib/router';
+import { beginHydration } from './lib/hydration';
+import { NOT_FOUND_PAGE, ROUTES } from './routes';
 
-createRoot(document.getElementById('root')!).render(
+const root = document.getElementById('root')!;
+const app = (
   <StrictMode>
     <App />
   </StrictMode>
 );
+
+if (root.hasChildNodes()) {
+  // Prerendered by `npm run build`: load this route's chunk first so hydration doesn't suspend
+  preloadRoute(ROUTES, NOT_FOUND_PAGE, window.location.pathname).then(() => {
+    beginHydration();
+    hydrateRoot(root, app);
+  });
+} else {
+  createRoot(root).render(app);
+}
@@ -0,0 +1,95 @@
+/**
+ * ConfirmPage.tsx — /confirm?token=…
+ *
+ * Landing spot for the double opt-in email. Sends the token to
+ * POST /api/waitlist/confirm and shows the same success panel LeadForm uses,
+ * with the now-confirmed queue position and share link.
+ */
+
+import { useEffect, useState } from 'react';
+import { confirmWaitlist, WaitlistError } from '../lib/api';
+import type { QueueStanding } from '../lib/api';
+import { Link } from '../lib/router';
+import { useHead } from '../lib/head';
+import SuccessPanel from '../components/SuccessPanel';
+import ReferralShare from '../components/ReferralShare';
+
+type State =
+  | { status: 'confirming' }
+  | { status: 'confirmed'; beta: boolean; standing: QueueStanding }
+  | { status: 'error'; message: string };
+
+function errorMessage(err: unknown): string {
+  if (err instanceof WaitlistError) {
+    switch (err.code) {
+      case 'expired_token':
+        return 'This confirmation link has expired. Sign up again and we\'ll send you a fresh one.';
+      case 'invalid_token':
+      case 'not_found':
+        return 'This confirmation link isn\'t valid. Check you copied the whole link from your email.';
+      case 'network':
+        return 'We couldn\'t reach our server. Check your connection and reload this page.';
+    }
+  }
+  return 'Something went wrong — please reload the page or email us directly.';
+}
+
+export default function ConfirmPage() {
+  const [state, setState] = useState<State>({ status: 'confirming' });
+
+  useHead({
+    title: 'Confirm your email — Bloomed',
+    description: 'Confirm your place on the Bloomed waitlist.',
+    path: '/confirm',
+    noindex: true,
+  });
+
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token');
+    if (!token) {
+      setState({ status: 'error', message: errorMessage(new WaitlistError('invalid_token')) });
+      return;
+    }
+
+    let cancelled = false;
+    confirmWaitlist(token)
+      .then(({ beta, ...standing }) => { if (!cancelled) setState({ status: 'confirmed', beta, standing }); })
+      .catch(err => {
+        console.error('Waitlist confirmation error:', err);
+        if (!cancelled) setState({ status: 'error', message: errorMessage(err) });
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center px-4 pt-28 pb-16">
+      <div className="w-full max-w-[440px] bg-surface border border-primary/10 rounded-2xl shadow-2xl px-6 py-5">
+        {state.status === 'confirming' && (
+          <p className="py-10 text-center text-body-sm text-muted">Confirming your email...</p>
+        )}
+
+        {state.status === 'confirmed' && (
+          <>
+            <SuccessPanel
+              title="You're on the list."
+              action={<Link to="/" className="btn-primary text-body-sm px-5 py-2.5">Back to Bloomed</Link>}
+            >
+              {state.beta
+                ? "Email confirmed. We'll be in touch soon with beta access. Thanks for helping shape Bloomed."
+                : "Email confirmed. We'll email you when Bloomed is ready. Keep studying — we're building something great."}
+            </SuccessPanel>
+            <ReferralShare standing={state.standing} beta={state.beta} />
+          </>
+        )}
+
+        {state.status === 'error' && (
+          <div className="py-6 text-center">
+            <h4 className="text-body-lg font-bold text-primary mb-2">We couldn't confirm that.</h4>
+            <p className="text-body-sm text-muted max-w-xs mx-auto">{state.message}</p>
+            <Link to="/" className="btn-primary mt-6 mx-auto text-body-sm px-5 py-2.5">Back to Bloomed</Link>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,47 @@
+/**
+ * HomePage.tsx — / (the landing page)
+ *
+ * The section stack that used to be App. UniversityPage renders the same
+ * stack with its own hero subheadline and head.
+ */
+
+import type { ReactNode } from 'react';
+import Hero from '../components/Hero';
+import PainPoints from '../components/PainPoints';
+import NarrativeSection from '../components/NarrativeSection';
+import CtaSection from '../components/CtaSection';
+import FaqSection from '../components/FaqSection';
+import type { PageProps } from '../routes';
+import { useHead } from '../lib/head';
+import type { PageHead } from '../lib/head';
+import { faqPage, organization, webSite } from '../lib/structuredData';
+import { SITE_DESCRIPTION } from '../lib/site';
+import { FAQS } from '../data/faqs';
+
+const HOME_HEAD: PageHead = {
+  title: 'Bloomed — Diagnose Your Weaknesses. Master Medicine.',
+  description: SITE_DESCRIPTION,
+  path: '/',
+  jsonLd: [organization(), webSite(), faqPage(FAQS, '/')],
+};
+
+interface Props extends PageProps {
+  /** Replaces the default hero subheadline */
+  subheadline?: ReactNode;
+  /** Replaces the landing page's title, description and JSON-LD */
+  head?: PageHead;
+}
+
+export default function HomePage({ onOpenForm, subheadline, head = HOME_HEAD }: Props) {
+  useHead(head);
+
+  return (
+    <>
+      <Hero onOpenForm={() => onOpenForm('hero')} subheadline={subheadline} />
+      <PainPoints />
+      <NarrativeSection />
+      <CtaSection onOpenForm={() => onOpenForm('cta')} />
+      <FaqSection />
+    </>
+  );
+}
@@ -0,0 +1,269 @@
+/**
+ * ManagePage.tsx — /waitlist/manage?token=…
+ *
+ * Self-service for waitlist members, reached from the signed link in the
+ * confirmation (or manage-link) email. Shows what we store, lets the person
+ * switch between the beta and launch lists, and deletes their details on
+ * request — all through /api/waitlist/manage (worker/waitlist.ts).
+ *
+ * Without a usable token, the page offers to email a fresh link instead.
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  deleteManagedEntry,
+  getManagedEntry,
+  requestManageLink,
+  updateManagedEntry,
+  WaitlistError,
+} from '../lib/api';
+import type { ManagedEntry } from '../lib/api';
+import { formatValue } from '../lib/formSteps';
+import { NO_UNIVERSITY } from '../lib/waitlist';
+import { LEAD_FORM_STEPS } from '../data/leadFormSteps';
+import { Link, useLocation } from '../lib/router';
+import { useHead } from '../lib/head';
+import SuccessPanel from '../components/SuccessPanel';
+
+type State =
+  | { status: 'loading' }
+  | { status: 'loaded'; entry: ManagedEntry }
+  | { status: 'deleted' }
+  | { status: 'error'; message: string };
+
+// Reuse LeadForm's wording for the beta / wait choice
+const BETA_FIELD = LEAD_FORM_STEPS.flatMap(step => step.fields).find(field => field.name === 'beta')!;
+const BETA_OPTIONS = BETA_FIELD.type === 'choice' ? BETA_FIELD.options : [];
+
+function errorMessage(err: unknown): string {
+  if (err instanceof WaitlistError) {
+    switch (err.code) {
+      case 'expired_token':
+        return 'This link has expired. Enter your email below and we\'ll send you a new one.';
+      case 'invalid_token':
+        return 'This link isn\'t valid. Check you copied the whole link, or ask for a new one below.';
+      case 'not_found':
+        return 'We couldn\'t find your details — they may already have been deleted.';
+      case 'network':
+        return 'We couldn\'t reach our server. Check your connection and reload this page.';
+    }
+  }
+  return 'Something went wrong — please reload the page or email us directly.';
+}
+
+export default function ManagePage() {
+  const token = new URLSearchParams(useLocation().search).get('token');
+  const [state, setState] = useState<State>({ status: 'loading' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState('');
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  useHead({
+    title: 'Manage your sign-up — Bloomed',
+    description: 'See, update or delete your Bloomed waitlist details.',
+    path: '/waitlist/manage',
+    noindex: true,
+  });
+
+  useEffect(() => {
+    if (!token) {
+      setState({ status: 'error', message: errorMessage(new WaitlistError('invalid_token')) });
+      return;
+    }
+
+    let cancelled = false;
+    getManagedEntry(token)
+      .then(entry => { if (!cancelled) setState({ status: 'loaded', entry }); })
+      .catch(err => {
+        console.error('Waitlist manage error:', err);
+        if (!cancelled) setState({ status: 'error', message: errorMessage(err) });
+      });
+    return () => { cancelled = true; };
+  }, [token]);
+
+  async function run(action: () => Promise<void>) {
+    setIsSaving(true);
+    setActionError('');
+    try {
+      await action();
+    } catch (err) {
+      console.error('Waitlist manage error:', err);
+      setActionError(errorMessage(err));
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const setBeta = (beta: boolean) => run(async () => {
+    const entry = await updateManagedEntry(token!, { beta });
+    setState({ status: 'loaded', entry });
+  });
+
+  const remove = () => run(async () => {
+    await deleteManagedEntry(token!);
+    setState({ status: 'deleted' });
+  });
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center px-4 pt-28 pb-16">
+      <div className="w-full max-w-[440px] bg-surface border border-primary/10 rounded-2xl shadow-2xl px-6 py-5">
+        {state.status === 'loading' && (
+          <p className="py-10 text-center text-body-sm text-muted">Loading your details...</p>
+        )}
+
+        {state.status === 'loaded' && (
+          <div className="space-y-5">
+            <h1 className="text-body font-bold text-primary">Your waitlist details</h1>
+
+            <dl className="border border-primary/[0.08] rounded-xl divide-y divide-primary/[0.06]">
+              {[
+                ['Name', state.entry.name],
+                ['Email', state.entry.email],
+                ['University', state.entry.university === NO_UNIVERSITY ? '—' : state.entry.university],
+                ['Degree stage', state.entry.level],
+                ['Joining', formatValue(BETA_FIELD, state.entry.beta)],
+                ['Status', state.entry.status === 'confirmed' ? 'Confirmed' : 'Waiting for email confirmation'],
+              ].map(([label, value]) => (
+                <div key={label} className="px-4 py-3">
+                  <dt className="text-caption text-muted">{label}</dt>
+                  <dd className="text-body-sm font-medium text-primary break-words">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div>
+              <p className="text-caption font-medium text-muted mb-2">How would you like to join?</p>
+              <div className="space-y-2">
+                {BETA_OPTIONS.map(opt => (
+                  <button
+                    key={String(opt.value)}
+                    type="button"
+                    disabled={isSaving}
+                    aria-pressed={state.entry.beta === opt.value}
+                    onClick={() => { if (state.entry.beta !== opt.value) setBeta(opt.value === true); }}
+                    className={`w-full text-left px-4 py-3 rounded-xl border-2 transition-all duration-150 cursor-pointer ${
+                      state.entry.beta === opt.value
+                        ? 'border-accent bg-accent/5'
+                        : 'border-primary/[0.08] hover:border-accent/30 bg-transparent'
+                    }`}
+                  >
+                    <span className="block text-body-sm font-medium text-primary">{opt.label}</span>
+                    {opt.desc && <span className="block text-caption text-muted mt-0.5">{opt.desc}</span>}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="pt-4 border-t border-primary/5">
+              {confirmingDelete ? (
+                <div className="space-y-3">
+                  <p className="text-body-sm text-primary">
+                    This permanently deletes your details and your place on the waitlist. It can't be undone.
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={remove}
+                      disabled={isSaving}
+                      className="px-4 py-2 rounded-lg text-caption font-medium text-danger border border-danger/30 hover:bg-danger/5 transition-colors"
+                    >
+                      {isSaving ? 'Deleting...' : 'Delete my details'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setConfirmingDelete(false)}
+                      disabled={isSaving}
+                      className="px-3 py-2 text-caption text-muted hover:text-primary"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => setConfirmingDelete(true)}
+                  className="text-caption text-muted hover:text-danger underline"
+                >
+                  Remove me from the waitlist
+                </button>
+              )}
+            </div>
+
+            {actionError && <p className="text-caption text-danger">{actionError}</p>}
+          </div>
+        )}
+
+        {state.status === 'deleted' && (
+          <SuccessPanel
+            title="Your details have been deleted."
+            action={<Link to="/" className="btn-primary text-body-sm px-5 py-2.5">Back to Bloomed</Link>}
+          >
+            You're off the waitlist and we won't email you again. You're welcome back any time.
+          </SuccessPanel>
+        )}
+
+        {state.status === 'error' && (
+          <div className="py-6 text-center">
+            <h4 className="text-body-lg font-bold text-primary mb-2">We couldn't open your details.</h4>
+            <p className="text-body-sm text-muted max-w-xs mx-auto">{state.message}</p>
+            <RequestLinkForm />
+          </div>
+        )}
+      </div>
+    </main>
+  );
+}
+
+// -- Helper components --
+
+function RequestLinkForm() {
+  const [email, setEmail] = useState('');
+  const [sent, setSent] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [error, setError] = useState('');
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsSending(true);
+    setError('');
+    try {
+      await requestManageLink(email);
+      setSent(true);
+    } catch (err) {
+      setError(
+        err instanceof WaitlistError && err.code === 'invalid'
+          ? 'Please enter a valid email address.'
+          : 'Something went wrong — please try again or email us directly.'
+      );
+    } finally {
+      setIsSending(false);
+    }
+  }
+
+  if (sent) {
+    return (
+      <p className="mt-6 text-body-sm text-primary">
+        If {email} is on the waitlist, a new link is on its way.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="mt-6 space-y-2 text-left">
+      <input
+        type="email"
+        required
+        placeholder="Your email"
+        aria-label="Email"
+        value={email}
+        onChange={e => setEmail(e.target.value)}
+        className="form-input text-body-sm"
+      />
+      <button type="submit" disabled={isSending} className="btn-primary w-full justify-center text-body-sm">
+        {isSending ? 'Sending...' : 'Email me a new link'}
+      </button>
+      {error && <p className="text-caption text-danger">{error}</p>}
+    </form>
+  );
+}
@@ -0,0 +1,26 @@
+/**
+ * NotFoundPage.tsx — shown for any path without a route (routes.ts).
+ */
+
+import { Link, useLocation } from '../lib/router';
+import { useHead } from '../lib/head';
+
+export default function NotFoundPage() {
+  useHead({
+    title: 'Page not found — Bloomed',
+    description: "We couldn't find that page.",
+    path: useLocation().pathname,
+    noindex: true,
+  });
+
+  return (
+    <main className="min-h-screen flex flex-col items-center justify-center px-6 py-16 text-center">
+      <p className="text-caption font-medium text-muted mb-2">404</p>
+      <h1 className="text-h2 font-bold text-primary mb-4">We couldn't find that page.</h1>
+      <p className="text-body-sm text-muted max-w-sm mb-8">
+        The link may be broken, or the page may have moved.
+      </p>
+      <Link to="/" className="btn-primary text-body-sm px-5 py-2.5">Back to Bloomed</Link>
+    </main>
+  );
+}
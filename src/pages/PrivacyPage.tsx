@@ -0,0 +1,71 @@
+/**
+ * PrivacyPage.tsx — /privacy
+ *
+ * The privacy policy, written against the Australian Privacy Principles.
+ * When the text changes materially, bump PRIVACY_POLICY_VERSION in
+ * lib/site.ts so consent is asked for again.
+ */
+
+import { CONTACT_EMAIL, PRIVACY_POLICY_PATH, PRIVACY_POLICY_VERSION } from '../lib/site';
+import LegalPage from '../components/LegalPage';
+import type { LegalSection } from '../components/LegalPage';
+
+const SECTIONS: LegalSection[] = [
+  {
+    heading: 'Who we are',
+    body: [
+      'Bloomed builds study tools for Australian medical students and junior doctors. This policy explains what personal information we collect through bloomed.study, why, and what you can do about it.',
+    ],
+  },
+  {
+    heading: 'What we collect',
+    body: [
+      'When you join the waitlist: your name, email address, whether you are a medical student or junior doctor, your university and degree stage, whether you want early beta access, and the date and policy version of your consent to be contacted.',
+      'If you share or use a referral link: the referral code, so we can credit whoever referred you.',
+      'Only if you allow it in the privacy banner: anonymous usage events (for example, which FAQ was opened) and campaign attribution (utm parameters, the referring website and which button opened the form).',
+    ],
+  },
+  {
+    heading: 'How we use it',
+    body: [
+      'To confirm your email address, manage your place in the waitlist, contact you about early access and the launch of Bloomed, and understand which parts of the site and which campaigns are working. We do not sell your information or use it for advertising.',
+    ],
+  },
+  {
+    heading: 'Cookies and local storage',
+    body: [
+      'We do not use advertising or third-party cookies. Your browser stores a few first-party items: your privacy choices, an unfinished sign-up form (deleted after a week), a referral code (deleted after 30 days) and, with your consent, analytics and attribution data for the current browser session. We honour Do Not Track and Global Privacy Control.',
+    ],
+  },
+  {
+    heading: 'Storage and disclosure',
+    body: [
+      'Waitlist details are stored with our hosting and database providers (Cloudflare and Supabase), and confirmation emails are sent through our email provider (Resend). These providers may store data outside Australia, including in the United States, and only process it on our behalf.',
+    ],
+  },
+  {
+    heading: 'Access, correction and deletion',
+    body: [
+      'Every waitlist email includes a link to a page where you can see the details we hold, change your beta preference or delete your details straight away. If you no longer have that email, the page can send you a new link.',
+      `You can also ask to see, correct or delete your information by emailing ${CONTACT_EMAIL}. You can change your privacy choices with "Privacy settings" at the bottom of any page.`,
+    ],
+  },
+  {
+    heading: 'Complaints',
+    body: [
+      `If you have a concern about how we handle your information, email ${CONTACT_EMAIL} and we will respond within 30 days. If you are not satisfied, you can contact the Office of the Australian Information Commissioner (oaic.gov.au).`,
+    ],
+  },
+];
+
+export default function PrivacyPage() {
+  return (
+    <LegalPage
+      title="Privacy policy"
+      description="What personal information Bloomed collects, why, and how to see, correct or delete it."
+      path={PRIVACY_POLICY_PATH}
+      version={PRIVACY_POLICY_VERSION}
+      sections={SECTIONS}
+    />
+  );
+}
@@ -0,0 +1,64 @@
+/**
+ * TermsPage.tsx — /terms
+ *
+ * Terms for using the site and joining the waitlist. Bump TERMS_VERSION when
+ * the text changes.
+ */
+
+import { CONTACT_EMAIL } from '../lib/site';
+import LegalPage from '../components/LegalPage';
+import type { LegalSection } from '../components/LegalPage';
+
+const TERMS_VERSION = '2026-10-19';
+
+const SECTIONS: LegalSection[] = [
+  {
+    heading: 'About these terms',
+    body: [
+      'These terms apply to bloomed.study and to joining the Bloomed waitlist. By using the site or signing up, you agree to them. Using Bloomed itself, once it launches, will be covered by separate terms.',
+    ],
+  },
+  {
+    heading: 'The waitlist',
+    body: [
+      'Joining the waitlist is free and does not guarantee access to Bloomed, to the beta, or to any particular price. Your position in the queue is an estimate and can change — for example as people confirm their email or refer friends.',
+      'Please sign up only for yourself, with accurate details and an email address you control. We may remove sign-ups that look automated, duplicated or abusive, including referrals made with fake accounts.',
+    ],
+  },
+  {
+    heading: 'Beta access',
+    body: [
+      'If you choose to get started early, beta versions of Bloomed may be incomplete, change without notice or be unavailable at times. We may ask for your feedback, which you are free to give or not.',
+    ],
+  },
+  {
+    heading: 'Not medical advice',
+    body: [
+      'Bloomed is a study tool. Nothing on this site is clinical or medical advice, and it should not be relied on for patient care.',
+    ],
+  },
+  {
+    heading: 'Your information',
+    body: [
+      'How we collect and use your information is explained in our privacy policy. You can leave the waitlist and delete your details at any time using the link in any of our emails.',
+    ],
+  },
+  {
+    heading: 'Changes and contact',
+    body: [
+      `We may update these terms; the version date above shows when they last changed. Questions? Email ${CONTACT_EMAIL}.`,
+    ],
+  },
+];
+
+export default function TermsPage() {
+  return (
+    <LegalPage
+      title="Terms of use"
+      description="The terms for using bloomed.study and joining the Bloomed waitlist."
+      path="/terms"
+      version={TERMS_VERSION}
+      sections={SECTIONS}
+    />
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * UniversityPage.tsx — /u/:slug
+ *
+ * The landing page addressed to one medical school, for campus campaigns.
+ * Schools and slugs come from data/medSchools.ts; unknown slugs get the 404
+ * page. App preselects the school in LeadForm, and lib/attribution.ts
+ * records it with the sign-up.
+ */
+
+import { findSchoolBySlug } from '../data/medSchools';
+import type { ProgramType } from '../data/medSchools';
+import type { PageProps } from '../routes';
+import { faqPage, organization, webSite } from '../lib/structuredData';
+import { FAQS } from '../data/faqs';
+import HomePage from './HomePage';
+import NotFoundPage from './NotFoundPage';
+
+const PROGRAM_LINE: Record<ProgramType, string> = {
+  undergraduate: 'From first-year foundations to your clinical years.',
+  graduate: 'Made for the pace of a graduate-entry MD.',
+  both: 'Whichever way you came into medicine.',
+};
+
+export default function UniversityPage(props: PageProps) {
+  const school = findSchoolBySlug(props.params.slug);
+  if (!school) return <NotFoundPage />;
+
+  const path = `/u/${school.slug}`;
+
+  return (
+    <HomePage
+      {...props}
+      head={{
+        title: `Bloomed for ${school.shortName} medical students`,
+        description: `Built for ${school.shortName} medical students. ${PROGRAM_LINE[school.program]} Answer questions. We spot the gaps.`,
+        path,
+        ogArt: 'australia',
+        jsonLd: [organization(), webSite(), faqPage(FAQS, path)],
+      }}
+      subheadline={
+        <>
+          Built for {school.shortName} medical students. {PROGRAM_LINE[school.program]}
+          <br />
+          Answer questions. We spot the gaps.
+        </>
+      }
+    />
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * routes.ts — every page on the site, in match order.
+ *
+ * Each page is loaded on first visit (lazyPage in lib/router.tsx), so the
+ * landing page's animation libraries never load on /privacy and vice versa.
+ * Pages receive their URL params plus the app-level actions in PageProps.
+ */
+
+import { lazyPage } from './lib/router';
+import type { RouteDef, RouteParams } from './lib/router';
+import type { CtaSource } from './lib/waitlist';
+import { MED_SCHOOLS } from './data/medSchools';
+
+export interface PageProps {
+  params: RouteParams;
+  /** Open the LeadForm modal, noting which call to action was used */
+  onOpenForm: (source: CtaSource) => void;
+}
+
+type SharedPageProps = Omit<PageProps, 'params'>;
+
+export const ROUTES: readonly RouteDef<SharedPageProps>[] = [
+  { path: '/', page: lazyPage(() => import('./pages/HomePage')), sitemap: { priority: 1 } },
+  {
+    path: '/u/:slug',
+    page: lazyPage(() => import('./pages/UniversityPage')),
+    entries: () => MED_SCHOOLS.map(school => ({ slug: school.slug })),
+    sitemap: { priority: 0.8 },
+  },
+  { path: '/privacy', page: lazyPage(() => import('./pages/PrivacyPage')), sitemap: { priority: 0.3 } },
+  { path: '/terms', page: lazyPage(() => import('./pages/TermsPage')), sitemap: { priority: 0.3 } },
+  // Token links: useless without the token, and noindex
+  { path: '/confirm', page: lazyPage(() => import('./pages/ConfirmPage')), sitemap: false },
+  { path: '/waitlist/manage', page: lazyPage(() => import('./pages/ManagePage')), sitemap: false },
+];
+
+export const NOT_FOUND_PAGE = lazyPage(() => import('./pages/NotFoundPage'));
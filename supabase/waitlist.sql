@@ -0,0 +1,49 @@
+-- Waitlist table for the Supabase storage adapter (worker/storage/supabase.ts).
+-- The Postgres counterpart of migrations/, which are D1 only: keep the two
+-- in step when a column is added.
+--
+-- Safe to run more than once, and on the table the old `add-waitlist` Edge
+-- Function wrote to: it only creates what is missing.
+-- Apply in the Supabase SQL editor, or: psql "$SUPABASE_DB_URL" -f supabase/waitlist.sql
+
+-- The Worker generates ids (crypto.randomUUID()), so an existing table's
+-- id column must accept a uuid
+create table if not exists public.waitlist (
+  id                uuid primary key,
+  lister_name       text not null,
+  lister_email      text not null,
+  lister_university text not null,
+  lister_level      text not null,
+  lister_why        text not null default '',
+  lister_beta       boolean not null,
+  created_at        timestamptz not null default now()
+);
+
+-- Double opt-in (migrations/0002)
+alter table public.waitlist add column if not exists status       text not null default 'pending';
+alter table public.waitlist add column if not exists confirmed_at timestamptz;
+
+-- Referral codes (migrations/0003)
+alter table public.waitlist add column if not exists referral_code text;
+alter table public.waitlist add column if not exists referred_by   text;
+
+-- First-touch attribution (migrations/0004)
+alter table public.waitlist add column if not exists attribution jsonb;
+
+-- Consent to contact (migrations/0005); NULL for rows from before the consent step
+alter table public.waitlist add column if not exists lister_consent_at     timestamptz;
+alter table public.waitlist add column if not exists lister_policy_version text;
+
+-- Email throttles (migrations/0006, 0007)
+alter table public.waitlist add column if not exists confirmation_sent_at timestamptz;
+alter table public.waitlist add column if not exists manage_link_sent_at  timestamptz;
+
+-- The adapter spots duplicates by this index's name appearing in the
+-- unique_violation message, so keep `lister_email` in it
+create unique index if not exists waitlist_lister_email_key on public.waitlist (lister_email);
+create unique index if not exists waitlist_referral_code on public.waitlist (referral_code);
+create index if not exists waitlist_referred_by on public.waitlist (referred_by);
+
+-- Only the Worker reads or writes the table, with the service role key,
+-- which bypasses RLS. With no policies, the anon key gets nothing.
+alter table public.waitlist enable row level security;
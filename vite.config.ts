@@ -1,6 +1,13 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
+import sitemap from './scripts/vite-plugin-sitemap';
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), sitemap()],
+  server: {
+    // API routes are served by the Worker — run `npx wrangler dev` alongside `npm run dev`
+    proxy: {
+      '/api': 'http://localhost:8787',
+    },
+  },
 });
@@ -0,0 +1,122 @@
+/**
+ * email.ts — pluggable outbound email.
+ *
+ * Handlers send through an EmailTransport and never know which one:
+ *   - 'resend'  → Resend HTTP API (production)
+ *   - 'console' → logs the message, links included (wrangler dev)
+ *   - createFakeTransport() → records messages in memory for tests
+ */
+
+import type { Env } from './env';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    async send(message) {
+      console.log(`[email] to=${message.to} subject="${message.subject}"\n${message.text}`);
+    },
+  };
+}
+
+/** In-memory transport — inspect `outbox` to assert on what would have been sent */
+export function createFakeTransport(): EmailTransport & { outbox: EmailMessage[] } {
+  const outbox: EmailMessage[] = [];
+  return {
+    outbox,
+    async send(message) {
+      outbox.push(message);
+    },
+  };
+}
+
+export function createResendTransport(apiKey: string, from: string): EmailTransport {
+  return {
+    async send(message) {
+      const res = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from, ...message }),
+      });
+      if (!res.ok) {
+        throw new Error(`Resend request failed (${res.status}): ${await res.text()}`);
+      }
+    },
+  };
+}
+
+/** Pick the transport named by EMAIL_TRANSPORT (defaults to console) */
+export function createTransport(env: Env): EmailTransport {
+  switch (env.EMAIL_TRANSPORT ?? 'console') {
+    case 'console':
+      return createConsoleTransport();
+
+    case 'resend':
+      if (!env.RESEND_API_KEY || !env.EMAIL_FROM) {
+        throw new Error('EMAIL_TRANSPORT=resend but RESEND_API_KEY / EMAIL_FROM are missing');
+      }
+      return createResendTransport(env.RESEND_API_KEY, env.EMAIL_FROM);
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const firstName = (name: string) => name.split(/\s+/)[0] || 'there';
+
+export function confirmationEmail(to: string, name: string, link: string, manageLink: string): EmailMessage {
+  const first = firstName(name);
+  return {
+    to,
+    subject: 'Confirm your spot on the Bloomed waitlist',
+    text:
+      `Hi ${first},\n\n` +
+      `Thanks for signing up for Bloomed early access. Please confirm your email address ` +
+      `so we can keep your spot:\n\n${link}\n\n` +
+      `If you didn't sign up, you can ignore this email.\n\n` +
+      `See, change or delete your details: ${manageLink}\n\n— The Bloomed team`,
+    html:
+      `<p>Hi ${escapeHtml(first)},</p>` +
+      `<p>Thanks for signing up for Bloomed early access. Please confirm your email address so we can keep your spot:</p>` +
+      `<p><a href="${escapeHtml(link)}">Confirm my email</a></p>` +
+      `<p>If you didn't sign up, you can ignore this email.</p>` +
+      `<p>— The Bloomed team</p>` +
+      `<p><small><a href="${escapeHtml(manageLink)}">See, change or delete your details</a></small></p>`,
+  };
+}
+
+export function manageLinkEmail(to: string, name: string, link: string): EmailMessage {
+  const first = firstName(name);
+  return {
+    to,
+    subject: 'Manage your Bloomed waitlist details',
+    text:
+      `Hi ${first},\n\n` +
+      `Use this link to see the details we hold about you, change your beta preference ` +
+      `or delete your details:\n\n${link}\n\n` +
+      `If you didn't ask for this, you can ignore this email.\n\n— The Bloomed team`,
+    html:
+      `<p>Hi ${escapeHtml(first)},</p>` +
+      `<p>Use this link to see the details we hold about you, change your beta preference or delete your details:</p>` +
+      `<p><a href="${escapeHtml(link)}">Manage my details</a></p>` +
+      `<p>If you didn't ask for this, you can ignore this email.</p>` +
+      `<p>— The Bloomed team</p>`,
+  };
+}
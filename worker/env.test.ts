@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createTransport } from './email';
+import type { Env } from './env';
+import { createStore } from './storage';
+
+const { createSupabaseStore, createD1Store } = vi.hoisted(() => ({
+  createSupabaseStore: vi.fn((_url: string, _key: string) => ({ adapter: 'supabase' })),
+  createD1Store: vi.fn(() => ({ adapter: 'd1' })),
+}));
+
+vi.mock('./storage/supabase', () => ({ createSupabaseStore }));
+vi.mock('./storage/d1', () => ({ createD1Store }));
+
+const MESSAGE = { to: 'sam@example.com', subject: 'Hi', text: 'Hello', html: '<p>Hello</p>' };
+
+/** The vars in wrangler.jsonc, plus the secrets a deployment sets */
+const PRODUCTION = {
+  WAITLIST_STORE: 'supabase',
+  EMAIL_TRANSPORT: 'resend',
+  EMAIL_FROM: 'Bloomed <hello@bloomed.study>',
+  SUPABASE_URL: 'https://project.supabase.co',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role',
+  RESEND_API_KEY: 're_key',
+  TOKEN_SECRET: 'secret',
+} as const;
+
+/** .dev.vars.example */
+const LOCAL = {
+  WAITLIST_STORE: 'memory',
+  EMAIL_TRANSPORT: 'console',
+  TOKEN_SECRET: 'change-me',
+} as const;
+
+function env(vars: Partial<Env>): Env {
+  return { ASSETS: {} as Fetcher, ...vars };
+}
+
+/** Where a transport delivers: 'resend' if it calls the Resend API, 'console' if it only logs */
+async function deliveredBy(transport: ReturnType<typeof createTransport>): Promise<string[]> {
+  const fetch = vi.fn(async (_url: RequestInfo | URL, _init?: RequestInit) => new Response('{}'));
+  vi.stubGlobal('fetch', fetch);
+  const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  await transport.send(MESSAGE);
+  return [
+    ...fetch.mock.calls.map(([url]) => String(url)),
+    ...(log.mock.calls.length > 0 ? ['console'] : []),
+  ];
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+  createSupabaseStore.mockClear();
+  createD1Store.mockClear();
+});
+
+describe('production', () => {
+  it('stores in Supabase and sends through Resend', async () => {
+    expect(createStore(env(PRODUCTION))).toEqual({ adapter: 'supabase' });
+    expect(createSupabaseStore).toHaveBeenCalledWith('https://project.supabase.co', 'service-role');
+    expect(await deliveredBy(createTransport(env(PRODUCTION)))).toEqual(['https://api.resend.com/emails']);
+  });
+
+  it('fails loudly rather than falling back when a secret is missing', () => {
+    expect(() => createTransport(env({ ...PRODUCTION, RESEND_API_KEY: undefined }))).toThrow(/RESEND_API_KEY/);
+    expect(() => createStore(env({ ...PRODUCTION, SUPABASE_SERVICE_ROLE_KEY: undefined }))).toThrow(/SUPABASE_SERVICE_ROLE_KEY/);
+    expect(() => createStore(env({ ...PRODUCTION, WAITLIST_STORE: 'd1' }))).toThrow(/no DB binding/);
+  });
+
+  it('uses D1 when configured with a binding', () => {
+    expect(createStore(env({ ...PRODUCTION, WAITLIST_STORE: 'd1', DB: {} as D1Database }))).toEqual({ adapter: 'd1' });
+  });
+});
+
+describe('preview', () => {
+  // Preview deployments override EMAIL_TRANSPORT (see README) so testers' sign-ups never email anyone
+  const PREVIEW = { ...PRODUCTION, EMAIL_TRANSPORT: 'console' } as const;
+
+  it('logs email instead of sending it, even with the Resend key present', async () => {
+    expect(await deliveredBy(createTransport(env(PREVIEW)))).toEqual(['console']);
+  });
+
+  it('still stores in Supabase', () => {
+    expect(createStore(env(PREVIEW))).toEqual({ adapter: 'supabase' });
+  });
+});
+
+describe('local development', () => {
+  it('keeps sign-ups in one memory store and logs email', async () => {
+    const store = createStore(env(LOCAL));
+    expect(createStore(env(LOCAL))).toBe(store);
+    expect(createSupabaseStore).not.toHaveBeenCalled();
+    expect(await deliveredBy(createTransport(env(LOCAL)))).toEqual(['console']);
+  });
+
+  it('defaults to logging email when no transport is named', async () => {
+    expect(await deliveredBy(createTransport(env({ RESEND_API_KEY: 're_key', EMAIL_FROM: 'x@y.z' })))).toEqual(['console']);
+  });
+
+  it('defaults to Supabase, which needs its credentials', () => {
+    expect(() => createStore(env({}))).toThrow(/SUPABASE_URL/);
+  });
+});
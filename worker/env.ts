@@ -0,0 +1,20 @@
+/** Bindings, vars and secrets available to the Worker (see wrangler.jsonc) */
+export interface Env {
+  ASSETS: Fetcher;
+
+  /** Which storage adapter backs the waitlist: 'supabase' (default), 'd1' or 'memory' */
+  WAITLIST_STORE?: 'supabase' | 'd1' | 'memory';
+
+  DB?: D1Database;
+  SUPABASE_URL?: string;
+  SUPABASE_SERVICE_ROLE_KEY?: string;
+
+  /** HMAC secret for emailed links (confirmation etc.) */
+  TOKEN_SECRET?: string;
+
+  /** How outbound email is delivered: 'console' (default) or 'resend' */
+  EMAIL_TRANSPORT?: 'console' | 'resend';
+  RESEND_API_KEY?: string;
+  /** Sender, e.g. "Bloomed <hello@bloomed.study>" */
+  EMAIL_FROM?: string;
+}
@@ -0,0 +1,12 @@
+/** Small response helpers shared by the API handlers */
+
+export function json(body: unknown, status = 200, headers?: HeadersInit): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers },
+  });
+}
+
+export function methodNotAllowed(allow: string[]): Response {
+  return json({ error: 'method_not_allowed' }, 405, { Allow: allow.join(', ') });
+}
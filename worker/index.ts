@@ -0,0 +1,43 @@
+/**
+ * Worker entry point — deployed alongside the static assets in dist/.
+ *
+ * Only /api/* requests reach this script (see `run_worker_first` in
+ * wrangler.jsonc); everything else is served straight from the asset binding.
+ */
+
+import type { Env } from './env';
+import { createTransport } from './email';
+import { json } from './http';
+import { createStore } from './storage';
+import { handleConfirm, handleManage, handleManageLink, handleWaitlist } from './waitlist';
+import type { WaitlistContext } from './waitlist';
+
+function waitlistContext(env: Env): WaitlistContext {
+  if (!env.TOKEN_SECRET) throw new Error('TOKEN_SECRET is not configured');
+  return {
+    store: createStore(env),
+    email: createTransport(env),
+    tokenSecret: env.TOKEN_SECRET,
+  };
+}
+
+export default {
+  async fetch(request, env) {
+    const { pathname } = new URL(request.url);
+
+    try {
+      switch (pathname) {
+        case '/api/waitlist':            return await handleWaitlist(request, waitlistContext(env));
+        case '/api/waitlist/confirm':    return await handleConfirm(request, waitlistContext(env));
+        case '/api/waitlist/manage':     return await handleManage(request, waitlistContext(env));
+        case '/api/waitlist/manage-link': return await handleManageLink(request, waitlistContext(env));
+      }
+    } catch (err) {
+      console.error('Unhandled API error:', err);
+      return json({ error: 'internal' }, 500);
+    }
+
+    if (pathname.startsWith('/api/')) return json({ error: 'not_found' }, 404);
+    return env.ASSETS.fetch(request);
+  },
+} satisfies ExportedHandler<Env>;
@@ -0,0 +1,136 @@
+/**
+ * storage/d1.ts
+ *
+ * Cloudflare D1 adapter. Schema lives in migrations/; the UNIQUE constraint
+ * on lister_email is what detects duplicates.
+ */
+
+import { DuplicateEmailError, newRecord, rankQueue } from './types';
+import type { NewWaitlistEntry, QueueRow, WaitlistRecord, WaitlistStatus, WaitlistStore } from './types';
+
+/** D1 has no boolean or JSON types — lister_beta comes back as 0/1, attribution as text */
+type Row = Omit<WaitlistRecord, 'lister_beta' | 'attribution'> & { lister_beta: number; attribution: string | null };
+
+function fromRow(row: Row | null): WaitlistRecord | null {
+  if (!row) return null;
+  return {
+    ...row,
+    lister_beta: row.lister_beta === 1,
+    status: row.status as WaitlistStatus,
+    attribution: row.attribution ? JSON.parse(row.attribution) : null,
+  };
+}
+
+export function createD1Store(db: D1Database): WaitlistStore {
+  const findBy = async (column: 'id' | 'lister_email' | 'referral_code', value: string) =>
+    fromRow(await db.prepare(`SELECT * FROM waitlist WHERE ${column} = ?`).bind(value).first<Row>());
+
+  return {
+    async insert(entry: NewWaitlistEntry) {
+      const record = newRecord(entry);
+      try {
+        await db
+          .prepare(
+            `INSERT INTO waitlist
+               (id, lister_name, lister_email, lister_university, lister_level, lister_why, lister_beta,
+                lister_consent_at, lister_policy_version,
+                status, referral_code, referred_by, attribution, created_at, confirmed_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          )
+          .bind(
+            record.id,
+            record.lister_name,
+            record.lister_email,
+            record.lister_university,
+            record.lister_level,
+            record.lister_why,
+            record.lister_beta ? 1 : 0,
+            record.lister_consent_at,
+            record.lister_policy_version,
+            record.status,
+            record.referral_code,
+            record.referred_by,
+            record.attribution && JSON.stringify(record.attribution),
+            record.created_at,
+            record.confirmed_at,
+          )
+          .run();
+      } catch (err) {
+        if (err instanceof Error && err.message.includes('UNIQUE constraint failed: waitlist.lister_email')) {
+          throw new DuplicateEmailError(entry.lister_email);
+        }
+        throw err;
+      }
+      return record;
+    },
+
+    findById: id => findBy('id', id),
+    findByEmail: email => findBy('lister_email', email),
+    findByReferralCode: code => findBy('referral_code', code),
+
+    async confirm(id) {
+      await db
+        .prepare(
+          `UPDATE waitlist SET status = 'confirmed', confirmed_at = ?
+           WHERE id = ? AND status != 'confirmed'`,
+        )
+        .bind(new Date().toISOString(), id)
+        .run();
+      return findBy('id', id);
+    },
+
+    async claimConfirmationSend(id, sentAt, cooldownStart) {
+      // ISO timestamps compare correctly as text
+      const { meta } = await db
+        .prepare(
+          `UPDATE waitlist SET confirmation_sent_at = ?
+           WHERE id = ? AND (confirmation_sent_at IS NULL OR confirmation_sent_at <= ?)`,
+        )
+        .bind(sentAt, id, cooldownStart)
+        .run();
+      return meta.changes > 0;
+    },
+
+    async claimManageLinkSend(email, sentAt, cooldownStart) {
+      const { meta } = await db
+        .prepare(
+          `UPDATE waitlist SET manage_link_sent_at = ?
+           WHERE lister_email = ? AND (manage_link_sent_at IS NULL OR manage_link_sent_at <= ?)`,
+        )
+        .bind(sentAt, email, cooldownStart)
+        .run();
+      return meta.changes > 0;
+    },
+
+    async update(id, changes) {
+      if (changes.lister_beta !== undefined) {
+        await db
+          .prepare('UPDATE waitlist SET lister_beta = ? WHERE id = ?')
+          .bind(changes.lister_beta ? 1 : 0, id)
+          .run();
+      }
+      return findBy('id', id);
+    },
+
+    async remove(id) {
+      const { meta } = await db.prepare('DELETE FROM waitlist WHERE id = ?').bind(id).run();
+      return meta.changes > 0;
+    },
+
+    async queuePosition(id) {
+      const subject = await findBy('id', id);
+      if (!subject) return null;
+      const { results } = await db
+        .prepare(
+          `SELECT w.id, w.created_at,
+                  (SELECT COUNT(*) FROM waitlist r
+                    WHERE r.referred_by = w.referral_code AND r.status = 'confirmed') AS referrals
+             FROM waitlist w
+            WHERE w.lister_beta = ? AND (w.status = 'confirmed' OR w.id = ?)`,
+        )
+        .bind(subject.lister_beta ? 1 : 0, id)
+        .all<QueueRow>();
+      return rankQueue(results, id);
+    },
+  };
+}
@@ -0,0 +1,38 @@
+import type { Env } from '../env';
+import type { WaitlistStore } from './types';
+import { createMemoryStore } from './memory';
+import { createD1Store } from './d1';
+import { createSupabaseStore } from './supabase';
+
+export { DuplicateEmailError } from './types';
+export type {
+  NewWaitlistEntry,
+  QueuePosition,
+  WaitlistRecord,
+  WaitlistStatus,
+  WaitlistStore,
+  WaitlistUpdate,
+} from './types';
+
+// Kept at module scope so the memory store survives between requests
+// handled by the same isolate.
+let memoryStore: WaitlistStore | null = null;
+
+/** Pick the storage adapter named by WAITLIST_STORE (defaults to Supabase) */
+export function createStore(env: Env): WaitlistStore {
+  switch (env.WAITLIST_STORE ?? 'supabase') {
+    case 'memory':
+      memoryStore ??= createMemoryStore();
+      return memoryStore;
+
+    case 'd1':
+      if (!env.DB) throw new Error('WAITLIST_STORE=d1 but no DB binding is configured');
+      return createD1Store(env.DB);
+
+    case 'supabase':
+      if (!env.SUPABASE_URL || !env.SUPABASE_SERVICE_ROLE_KEY) {
+        throw new Error('WAITLIST_STORE=supabase but SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY are missing');
+      }
+      return createSupabaseStore(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY);
+  }
+}
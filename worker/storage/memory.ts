@@ -0,0 +1,90 @@
+/**
+ * storage/memory.ts
+ *
+ * In-memory store for local development and tests. Entries live for the
+ * lifetime of the isolate, so a `wrangler dev` restart clears the list.
+ */
+
+import { DuplicateEmailError, newRecord, rankQueue } from './types';
+import type { NewWaitlistEntry, WaitlistRecord, WaitlistStore } from './types';
+
+export function createMemoryStore(): WaitlistStore {
+  const byId = new Map<string, WaitlistRecord>();
+
+  const find = (match: (r: WaitlistRecord) => boolean) => {
+    const record = [...byId.values()].find(match);
+    return record ? { ...record } : null;
+  };
+
+  const confirmedReferrals = (code: string) =>
+    [...byId.values()].filter(r => r.referred_by === code && r.status === 'confirmed').length;
+
+  return {
+    async insert(entry: NewWaitlistEntry) {
+      if (find(r => r.lister_email === entry.lister_email)) {
+        throw new DuplicateEmailError(entry.lister_email);
+      }
+      const record = newRecord(entry);
+      byId.set(record.id, record);
+      return { ...record };
+    },
+
+    async findById(id) {
+      return find(r => r.id === id);
+    },
+
+    async findByEmail(email) {
+      return find(r => r.lister_email === email);
+    },
+
+    async findByReferralCode(code) {
+      return find(r => r.referral_code === code);
+    },
+
+    async confirm(id) {
+      const record = byId.get(id);
+      if (!record) return null;
+      if (record.status !== 'confirmed') {
+        record.status = 'confirmed';
+        record.confirmed_at = new Date().toISOString();
+      }
+      return { ...record };
+    },
+
+    async claimConfirmationSend(id, sentAt, cooldownStart) {
+      const record = byId.get(id);
+      if (!record) return false;
+      if (record.confirmation_sent_at && record.confirmation_sent_at > cooldownStart) return false;
+      record.confirmation_sent_at = sentAt;
+      return true;
+    },
+
+    async claimManageLinkSend(email, sentAt, cooldownStart) {
+      const record = [...byId.values()].find(r => r.lister_email === email);
+      if (!record) return false;
+      if (record.manage_link_sent_at && record.manage_link_sent_at > cooldownStart) return false;
+      record.manage_link_sent_at = sentAt;
+      return true;
+    },
+
+    async update(id, changes) {
+      const record = byId.get(id);
+      if (!record) return null;
+      Object.assign(record, changes);
+      return { ...record };
+    },
+
+    async remove(id) {
+      return byId.delete(id);
+    },
+
+    async queuePosition(id) {
+      const subject = byId.get(id);
+      if (!subject) return null;
+      const rows = [...byId.values()]
+        .filter(r => r.lister_beta === subject.lister_beta && (r.status === 'confirmed' || r.id === id))
+        .map(r => ({ id: r.id, created_at: r.created_at, referrals: confirmedReferrals(r.referral_code) }));
+      return rankQueue(rows, id);
+    },
+  };
+}
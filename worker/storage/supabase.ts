@@ -0,0 +1,119 @@
+/**
+ * storage/supabase.ts
+ *
+ * Supabase adapter — writes to the same `waitlist` table the old
+ * `add-waitlist` Edge Function used. Runs with the service role key,
+ * which only ever exists as a Worker secret, never in the browser bundle.
+ * Schema: supabase/waitlist.sql (the Postgres version of migrations/).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { DuplicateEmailError, newRecord, rankQueue } from './types';
+import type { NewWaitlistEntry, WaitlistRecord, WaitlistStore } from './types';
+
+// Postgres error code for unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+export function createSupabaseStore(url: string, serviceRoleKey: string): WaitlistStore {
+  const supabase = createClient(url, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  const findBy = async (column: 'id' | 'lister_email' | 'referral_code', value: string) => {
+    const { data, error } = await supabase.from('waitlist').select('*').eq(column, value).maybeSingle();
+    if (error) throw new Error(`Supabase select failed: ${error.message}`);
+    return data as WaitlistRecord | null;
+  };
+
+  return {
+    async insert(entry: NewWaitlistEntry) {
+      const record = newRecord(entry);
+      const { error } = await supabase.from('waitlist').insert(record);
+      if (error) {
+        if (error.code === UNIQUE_VIOLATION && error.message.includes('lister_email')) {
+          throw new DuplicateEmailError(entry.lister_email);
+        }
+        throw new Error(`Supabase insert failed: ${error.message}`);
+      }
+      return record;
+    },
+
+    findById: id => findBy('id', id),
+    findByEmail: email => findBy('lister_email', email),
+    findByReferralCode: code => findBy('referral_code', code),
+
+    async confirm(id) {
+      const { error } = await supabase
+        .from('waitlist')
+        .update({ status: 'confirmed', confirmed_at: new Date().toISOString() })
+        .eq('id', id)
+        .neq('status', 'confirmed');
+      if (error) throw new Error(`Supabase update failed: ${error.message}`);
+      return findBy('id', id);
+    },
+
+    async claimConfirmationSend(id, sentAt, cooldownStart) {
+      const { data, error } = await supabase
+        .from('waitlist')
+        .update({ confirmation_sent_at: sentAt })
+        .eq('id', id)
+        .or(`confirmation_sent_at.is.null,confirmation_sent_at.lte.${cooldownStart}`)
+        .select('id');
+      if (error) throw new Error(`Supabase update failed: ${error.message}`);
+      return data.length > 0;
+    },
+
+    async claimManageLinkSend(email, sentAt, cooldownStart) {
+      const { data, error } = await supabase
+        .from('waitlist')
+        .update({ manage_link_sent_at: sentAt })
+        .eq('lister_email', email)
+        .or(`manage_link_sent_at.is.null,manage_link_sent_at.lte.${cooldownStart}`)
+        .select('id');
+      if (error) throw new Error(`Supabase update failed: ${error.message}`);
+      return data.length > 0;
+    },
+
+    async update(id, changes) {
+      const { error } = await supabase.from('waitlist').update(changes).eq('id', id);
+      if (error) throw new Error(`Supabase update failed: ${error.message}`);
+      return findBy('id', id);
+    },
+
+    async remove(id) {
+      const { data, error } = await supabase.from('waitlist').delete().eq('id', id).select('id');
+      if (error) throw new Error(`Supabase delete failed: ${error.message}`);
+      return data.length > 0;
+    },
+
+    async queuePosition(id) {
+      const subject = await findBy('id', id);
+      if (!subject) return null;
+
+      const [queue, referred] = await Promise.all([
+        supabase
+          .from('waitlist')
+          .select('id, created_at, referral_code')
+          .eq('lister_beta', subject.lister_beta)
+          .or(`status.eq.confirmed,id.eq.${id}`),
+        supabase
+          .from('waitlist')
+          .select('referred_by')
+          .eq('status', 'confirmed')
+          .not('referred_by', 'is', null),
+      ]);
+      if (queue.error) throw new Error(`Supabase select failed: ${queue.error.message}`);
+      if (referred.error) throw new Error(`Supabase select failed: ${referred.error.message}`);
+
+      const counts = new Map<string, number>();
+      for (const { referred_by } of referred.data) {
+        counts.set(referred_by, (counts.get(referred_by) ?? 0) + 1);
+      }
+
+      return rankQueue(
+        queue.data.map(r => ({ id: r.id, created_at: r.created_at, referrals: counts.get(r.referral_code) ?? 0 })),
+        id,
+      );
+    },
+  };
+}
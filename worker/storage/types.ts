@@ -0,0 +1,120 @@
+/**
+ * storage/types.ts
+ *
+ * The contract every waitlist storage adapter implements. The request
+ * handler only ever talks to a WaitlistStore, so swapping Supabase for
+ * D1 (or the in-memory store during local development) is a config change.
+ */
+
+import type { Attribution, WaitlistSubmission } from '../../src/lib/waitlist';
+
+/** 'pending' until the emailed confirmation link is followed */
+export type WaitlistStatus = 'pending' | 'confirmed';
+
+/**
+ * What gets stored: the submission, with its referral code resolved to
+ * `referred_by` and its attribution kept as a single JSON value
+ */
+export type NewWaitlistEntry = Omit<WaitlistSubmission, 'lister_ref' | 'lister_attribution'> & {
+  /** Referral code of the person who referred this sign-up */
+  referred_by: string | null;
+  attribution: Attribution | null;
+};
+
+export interface WaitlistRecord extends NewWaitlistEntry {
+  id: string;
+  status: WaitlistStatus;
+  /** This person's own share code (?ref=CODE) */
+  referral_code: string;
+  created_at: string;
+  confirmed_at: string | null;
+  /** When the last confirmation email went out; throttles re-sends */
+  confirmation_sent_at: string | null;
+  /** When the last manage-link email went out; throttles /api/waitlist/manage-link */
+  manage_link_sent_at: string | null;
+}
+
+/** Fields a waitlist member may change themselves from /waitlist/manage */
+export type WaitlistUpdate = Partial<Pick<WaitlistRecord, 'lister_beta'>>;
+
+export interface QueuePosition {
+  /** 1-based place in this person's queue (beta or launch list) */
+  position: number;
+  total: number;
+  /** Confirmed sign-ups that used this person's referral code */
+  referrals: number;
+}
+
+export interface WaitlistStore {
+  /** Persist a new pending entry. Throws DuplicateEmailError if the email is already listed. */
+  insert(entry: NewWaitlistEntry): Promise<WaitlistRecord>;
+  findById(id: string): Promise<WaitlistRecord | null>;
+  findByEmail(email: string): Promise<WaitlistRecord | null>;
+  findByReferralCode(code: string): Promise<WaitlistRecord | null>;
+  /** Mark an entry confirmed. Confirming twice is a no-op; returns null if the id is unknown. */
+  confirm(id: string): Promise<WaitlistRecord | null>;
+  /**
+   * Stamp a confirmation email as sent at `sentAt`, unless one already went
+   * out after `cooldownStart`. Atomic, so concurrent sign-ups can't both
+   * send; returns false if the entry is unknown or still cooling down.
+   */
+  claimConfirmationSend(id: string, sentAt: string, cooldownStart: string): Promise<boolean>;
+  /** As claimConfirmationSend, for the manage-link email to the entry with this email */
+  claimManageLinkSend(email: string, sentAt: string, cooldownStart: string): Promise<boolean>;
+  /** Apply a self-service change; returns the updated record, or null if the id is unknown */
+  update(id: string, changes: WaitlistUpdate): Promise<WaitlistRecord | null>;
+  /** Permanently delete an entry; returns false if the id is unknown */
+  remove(id: string): Promise<boolean>;
+  /** Where this entry sits in its queue; see rankQueue for the ordering rules */
+  queuePosition(id: string): Promise<QueuePosition | null>;
+}
+
+/** Raised by adapters when the unique constraint on lister_email is hit */
+export class DuplicateEmailError extends Error {
+  constructor(email: string) {
+    super(`Email already on the waitlist: ${email}`);
+    this.name = 'DuplicateEmailError';
+  }
+}
+
+// Matches REFERRAL_CODE_RE in src/lib/waitlist.ts — no 0/O or 1/I look-alikes
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function newReferralCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return Array.from(bytes, b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join('');
+}
+
+export function newRecord(entry: NewWaitlistEntry): WaitlistRecord {
+  return {
+    ...entry,
+    id: crypto.randomUUID(),
+    status: 'pending',
+    referral_code: newReferralCode(),
+    created_at: new Date().toISOString(),
+    confirmed_at: null,
+    confirmation_sent_at: null,
+    manage_link_sent_at: null,
+  };
+}
+
+/** The slice of a record needed to rank it; `referrals` counts confirmed referrals */
+export interface QueueRow {
+  id: string;
+  created_at: string;
+  referrals: number;
+}
+
+/**
+ * Rank a queue: more confirmed referrals first, then earliest sign-up.
+ * `rows` should hold the confirmed members of one queue (beta or launch)
+ * plus the entry being ranked, which may still be pending.
+ */
+export function rankQueue(rows: QueueRow[], id: string): QueuePosition | null {
+  const sorted = [...rows].sort(
+    (a, b) => b.referrals - a.referrals || a.created_at.localeCompare(b.created_at),
+  );
+  const index = sorted.findIndex(r => r.id === id);
+  if (index === -1) return null;
+  return { position: index + 1, total: sorted.length, referrals: sorted[index].referrals };
+}
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { signToken, verifyToken } from './tokens';
+
+const SECRET = 'test-secret';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('tokens', () => {
+  it('verifies a token it signed', async () => {
+    const token = await signToken(SECRET, 'record-1', 'confirm', 60);
+    const result = await verifyToken(SECRET, token, 'confirm');
+    expect(result).toEqual({ ok: true, payload: { sub: 'record-1', purpose: 'confirm', exp: expect.any(Number) } });
+  });
+
+  it('expires after its TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T09:00:00Z'));
+    const token = await signToken(SECRET, 'record-1', 'confirm', 60);
+
+    vi.setSystemTime(new Date('2026-10-19T09:00:59Z'));
+    expect((await verifyToken(SECRET, token, 'confirm')).ok).toBe(true);
+
+    vi.setSystemTime(new Date('2026-10-19T09:01:01Z'));
+    expect(await verifyToken(SECRET, token, 'confirm')).toEqual({ ok: false, reason: 'expired' });
+  });
+
+  it('rejects a token used for another purpose', async () => {
+    const token = await signToken(SECRET, 'record-1', 'confirm', 60);
+    expect(await verifyToken(SECRET, token, 'manage')).toEqual({ ok: false, reason: 'invalid' });
+  });
+
+  it('rejects a token signed with another secret', async () => {
+    const token = await signToken('other-secret', 'record-1', 'confirm', 60);
+    expect(await verifyToken(SECRET, token, 'confirm')).toEqual({ ok: false, reason: 'invalid' });
+  });
+
+  it('rejects a tampered payload', async () => {
+    const token = await signToken(SECRET, 'record-1', 'confirm', 60);
+    const [, signature] = token.split('.');
+    const forged = btoa(JSON.stringify({ sub: 'record-2', purpose: 'confirm', exp: 9_999_999_999 }))
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    expect(await verifyToken(SECRET, `${forged}.${signature}`, 'confirm')).toEqual({ ok: false, reason: 'invalid' });
+  });
+
+  it.each(['', 'abc', 'a.b.c', 'not base64!.sig'])('rejects the malformed token %j', async token => {
+    expect(await verifyToken(SECRET, token, 'confirm')).toEqual({ ok: false, reason: 'invalid' });
+  });
+});
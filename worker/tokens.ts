@@ -0,0 +1,88 @@
+/**
+ * tokens.ts — signed, expiring tokens for links we email to people.
+ *
+ * Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256 signature).
+ * The payload names the waitlist record and what the token may be used for,
+ * so a confirmation link can't be replayed against another endpoint.
+ */
+
+/** 'confirm' → /confirm (double opt-in); 'manage' → /waitlist/manage (view, edit, delete) */
+export type TokenPurpose = 'confirm' | 'manage';
+
+export interface TokenPayload {
+  /** Waitlist record id */
+  sub: string;
+  purpose: TokenPurpose;
+  /** Expiry, in seconds since the epoch */
+  exp: number;
+}
+
+export type VerifyResult =
+  | { ok: true; payload: TokenPayload }
+  | { ok: false; reason: 'invalid' | 'expired' };
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+function importKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+}
+
+export async function signToken(
+  secret: string,
+  sub: string,
+  purpose: TokenPurpose,
+  ttlSeconds: number,
+): Promise<string> {
+  const payload: TokenPayload = { sub, purpose, exp: Math.floor(Date.now() / 1000) + ttlSeconds };
+  const body = toBase64Url(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await importKey(secret), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+export async function verifyToken(
+  secret: string,
+  token: string,
+  purpose: TokenPurpose,
+): Promise<VerifyResult> {
+  const [body, signature, ...rest] = token.split('.');
+  if (!body || !signature || rest.length > 0) return { ok: false, reason: 'invalid' };
+
+  let payload: TokenPayload;
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await importKey(secret),
+      fromBase64Url(signature),
+      encoder.encode(body),
+    );
+    if (!valid) return { ok: false, reason: 'invalid' };
+    payload = JSON.parse(decoder.decode(fromBase64Url(body)));
+  } catch {
+    return { ok: false, reason: 'invalid' };
+  }
+
+  if (payload.purpose !== purpose || typeof payload.sub !== 'string') {
+    return { ok: false, reason: 'invalid' };
+  }
+  if (payload.exp < Date.now() / 1000) return { ok: false, reason: 'expired' };
+
+  return { ok: true, payload };
+}
@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeTransport } from './email';
+import { createMemoryStore } from './storage/memory';
+import { handleConfirm, handleManageLink, handleWaitlist } from './waitlist';
+import type { WaitlistContext } from './waitlist';
+
+const ORIGIN = 'https://bloomed.test';
+
+const submission = {
+  lister_name: 'Sam Lee',
+  lister_email: 'sam@example.com',
+  lister_university: 'Bond University',
+  lister_level: 'Clinical',
+  lister_why: '',
+  lister_beta: true,
+  lister_consent_at: '2026-10-19T09:00:00.000Z',
+  lister_policy_version: '2026-10-19',
+};
+
+function post(path: string, body: unknown): Request {
+  return new Request(`${ORIGIN}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+let email: ReturnType<typeof createFakeTransport>;
+let ctx: WaitlistContext;
+
+beforeEach(() => {
+  email = createFakeTransport();
+  ctx = { store: createMemoryStore(), email, tokenSecret: 'test-secret' };
+});
+
+/** The token from the confirm link in the last email sent */
+function confirmToken(): string {
+  const text = email.outbox[email.outbox.length - 1].text;
+  return decodeURIComponent(/\/confirm\?token=([^\s&]+)/.exec(text)![1]);
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('handleWaitlist', () => {
+  it('stores a pending entry and returns its standing', async () => {
+    const res = await handleWaitlist(post('/api/waitlist', submission), ctx);
+
+    expect(res.status).toBe(201);
+    expect(await res.json()).toEqual({
+      ok: true,
+      status: 'pending',
+      referralCode: expect.stringMatching(/^[A-HJ-NP-Z2-9]{8}$/),
+      position: 1,
+      total: 1,
+    });
+    expect(await ctx.store.findByEmail('sam@example.com')).toMatchObject({ status: 'pending' });
+  });
+
+  it('rejects bad JSON and invalid submissions', async () => {
+    const notJson = await handleWaitlist(post('/api/waitlist', '{'), ctx);
+    expect(notJson.status).toBe(400);
+    expect(await notJson.json()).toEqual({ error: 'invalid_json' });
+
+    const invalid = await handleWaitlist(post('/api/waitlist', { ...submission, lister_email: 'sam' }), ctx);
+    expect(invalid.status).toBe(400);
+    expect(await invalid.json()).toEqual({ error: 'invalid', fields: { lister_email: 'Invalid email address' } });
+    expect(email.outbox).toEqual([]);
+  });
+
+  it('only accepts POST', async () => {
+    const res = await handleWaitlist(new Request(`${ORIGIN}/api/waitlist`), ctx);
+    expect(res.status).toBe(405);
+    expect(res.headers.get('Allow')).toBe('POST');
+  });
+
+  it('still saves the entry when the email fails to send', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    ctx.email = { send: () => Promise.reject(new Error('down')) };
+
+    const res = await handleWaitlist(post('/api/waitlist', submission), ctx);
+    expect(res.status).toBe(201);
+    expect(await ctx.store.findByEmail('sam@example.com')).not.toBeNull();
+  });
+});
+
+describe('confirmation emails', () => {
+  it('emails a confirm link on sign-up', async () => {
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+
+    expect(email.outbox).toHaveLength(1);
+    expect(email.outbox[0]).toMatchObject({ to: 'sam@example.com', subject: 'Confirm your spot on the Bloomed waitlist' });
+    expect(email.outbox[0].text).toContain(`${ORIGIN}/confirm?token=`);
+  });
+
+  it('answers a pending duplicate with 202 and no standing', async () => {
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    const res = await handleWaitlist(post('/api/waitlist', { ...submission, lister_email: 'SAM@example.com' }), ctx);
+
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ ok: true, status: 'pending' });
+  });
+
+  it('re-sends the link to a pending address at most once per cooldown', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T09:00:00Z'));
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+
+    vi.setSystemTime(new Date('2026-10-19T09:10:00Z'));
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    expect(email.outbox).toHaveLength(1);
+
+    vi.setSystemTime(new Date('2026-10-19T09:15:00Z'));
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    expect(email.outbox).toHaveLength(2);
+  });
+
+  it('answers a confirmed duplicate with 409', async () => {
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    await handleConfirm(post('/api/waitlist/confirm', { token: confirmToken() }), ctx);
+
+    const res = await handleWaitlist(post('/api/waitlist', submission), ctx);
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({ error: 'duplicate' });
+    expect(email.outbox).toHaveLength(1);
+  });
+});
+
+describe('handleConfirm', () => {
+  it('confirms the entry named by the emailed token', async () => {
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    const res = await handleConfirm(post('/api/waitlist/confirm', { token: confirmToken() }), ctx);
+
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      ok: true,
+      beta: true,
+      referralCode: expect.any(String),
+      position: 1,
+      total: 1,
+    });
+    expect(await ctx.store.findByEmail('sam@example.com')).toMatchObject({ status: 'confirmed' });
+  });
+
+  it('rejects a missing, tampered or expired token', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T09:00:00Z'));
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    const token = confirmToken();
+
+    const missing = await handleConfirm(post('/api/waitlist/confirm', {}), ctx);
+    expect(await missing.json()).toEqual({ error: 'invalid_token' });
+
+    const tampered = await handleConfirm(post('/api/waitlist/confirm', { token: `${token}x` }), ctx);
+    expect(tampered.status).toBe(400);
+    expect(await tampered.json()).toEqual({ error: 'invalid_token' });
+
+    vi.setSystemTime(new Date('2026-10-27T09:00:00Z'));
+    const expired = await handleConfirm(post('/api/waitlist/confirm', { token }), ctx);
+    expect(expired.status).toBe(400);
+    expect(await expired.json()).toEqual({ error: 'expired_token' });
+
+    expect(await ctx.store.findByEmail('sam@example.com')).toMatchObject({ status: 'pending' });
+  });
+
+  it('returns 404 once the entry is gone', async () => {
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    const record = await ctx.store.findByEmail('sam@example.com');
+    await ctx.store.remove(record!.id);
+
+    const res = await handleConfirm(post('/api/waitlist/confirm', { token: confirmToken() }), ctx);
+    expect(res.status).toBe(404);
+    expect(await res.json()).toEqual({ error: 'not_found' });
+  });
+});
+
+describe('handleManageLink', () => {
+  it('sends one manage link per cooldown, answering 202 either way', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T09:00:00Z'));
+    await handleWaitlist(post('/api/waitlist', submission), ctx);
+    email.outbox.length = 0;
+
+    const first = await handleManageLink(post('/api/waitlist/manage-link', { email: 'sam@example.com' }), ctx);
+    const second = await handleManageLink(post('/api/waitlist/manage-link', { email: 'Sam@example.com' }), ctx);
+    expect([first.status, second.status]).toEqual([202, 202]);
+    expect(await second.json()).toEqual({ ok: true });
+    expect(email.outbox).toHaveLength(1);
+    expect(email.outbox[0]).toMatchObject({ to: 'sam@example.com', subject: 'Manage your Bloomed waitlist details' });
+
+    vi.setSystemTime(new Date('2026-10-19T09:15:00Z'));
+    await handleManageLink(post('/api/waitlist/manage-link', { email: 'sam@example.com' }), ctx);
+    expect(email.outbox).toHaveLength(2);
+  });
+
+  it('answers an unknown address with the same 202 and sends nothing', async () => {
+    const res = await handleManageLink(post('/api/waitlist/manage-link', { email: 'nobody@example.com' }), ctx);
+    expect(res.status).toBe(202);
+    expect(await res.json()).toEqual({ ok: true });
+    expect(email.outbox).toEqual([]);
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * waitlist.ts — waitlist API handlers
+ *
+ * POST /api/waitlist
+ *   Replaces the browser-side call to the `add-waitlist` Supabase Edge Function.
+ *   Validates the lister_* payload with the same schema LeadForm uses
+ *   (src/lib/waitlist.ts), stores it as 'pending' and emails a signed
+ *   confirmation link to /confirm?token=…  A valid `lister_ref` is recorded
+ *   as `referred_by`; once confirmed it moves the referrer up their queue.
+ *   `lister_attribution` (UTM / referrer / CTA) is stored as-is.
+ *
+ *   201 { ok: true, status: 'pending', referralCode, position, total }
+ *   202 { ok: true, status: 'pending' }    already pending — link re-sent, at
+ *                                          most once per CONFIRM_RESEND_COOLDOWN.
+ *                                          No code or position: anyone can submit
+ *                                          any address; the emailed link shows them.
+ *   400 { error: 'invalid_json' } | { error: 'invalid', fields: { ... } }
+ *   409 { error: 'duplicate' }             already confirmed
+ *
+ * POST /api/waitlist/confirm  { token }
+ *   200 { ok: true, beta, referralCode, position, total }
+ *   400 { error: 'invalid_token' | 'expired_token' }
+ *   404 { error: 'not_found' }
+ *
+ * GET | PATCH | DELETE /api/waitlist/manage   Authorization: Bearer <manage token>
+ *   Backs /waitlist/manage. The token comes from the link in the confirmation
+ *   or manage-link email.
+ *   GET    → 200 { ok: true, entry }
+ *   PATCH  { beta } → 200 { ok: true, entry }
+ *   DELETE → 200 { ok: true }               entry permanently removed
+ *   400 / 404 as for confirm
+ *
+ * POST /api/waitlist/manage-link  { email }
+ *   Emails a fresh manage link if the address is on the list, at most once
+ *   per MANAGE_LINK_COOLDOWN. Always 202, so the response doesn't reveal who
+ *   has signed up or when they last asked.
+ *   400 { error: 'invalid', fields: { lister_email } }
+ */
+
+import { isValidEmail, normaliseEmail, validateSubmission } from '../src/lib/waitlist';
+import { confirmationEmail, manageLinkEmail } from './email';
+import type { EmailTransport } from './email';
+import { json, methodNotAllowed } from './http';
+import { DuplicateEmailError } from './storage';
+import type { NewWaitlistEntry, WaitlistRecord, WaitlistStore } from './storage';
+import { signToken, verifyToken } from './tokens';
+
+const CONFIRM_TOKEN_TTL = 7 * 24 * 60 * 60;
+const MANAGE_TOKEN_TTL = 30 * 24 * 60 * 60;
+
+/** Seconds before a pending address can be sent its confirmation link again */
+const CONFIRM_RESEND_COOLDOWN = 15 * 60;
+
+/** Seconds before an address can be sent another manage link */
+const MANAGE_LINK_COOLDOWN = 15 * 60;
+
+export interface WaitlistContext {
+  store: WaitlistStore;
+  email: EmailTransport;
+  tokenSecret: string;
+}
+
+async function readJson(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/** Share code and queue standing, returned after sign-up and confirmation */
+async function queueDetails(ctx: WaitlistContext, record: WaitlistRecord) {
+  const queue = await ctx.store.queuePosition(record.id);
+  return {
+    referralCode: record.referral_code,
+    position: queue?.position ?? null,
+    total: queue?.total ?? null,
+  };
+}
+
+/** What /waitlist/manage shows — ids, referral data and attribution stay internal */
+function entryDetails(record: WaitlistRecord) {
+  return {
+    name: record.lister_name,
+    email: record.lister_email,
+    university: record.lister_university,
+    level: record.lister_level,
+    beta: record.lister_beta,
+    status: record.status,
+    createdAt: record.created_at,
+  };
+}
+
+function bearerToken(request: Request): string | null {
+  const match = /^Bearer\s+(\S+)$/.exec(request.headers.get('Authorization') ?? '');
+  return match ? match[1] : null;
+}
+
+async function manageLink(ctx: WaitlistContext, record: WaitlistRecord, origin: string) {
+  const token = await signToken(ctx.tokenSecret, record.id, 'manage', MANAGE_TOKEN_TTL);
+  return `${origin}/waitlist/manage?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Email the confirmation link, unless one went to this entry within the
+ * cooldown — the endpoint is public, so re-submitting a pending address
+ * mustn't send it email after email.
+ */
+async function sendConfirmation(ctx: WaitlistContext, record: WaitlistRecord, origin: string) {
+  const now = Date.now();
+  const claimed = await ctx.store.claimConfirmationSend(
+    record.id,
+    new Date(now).toISOString(),
+    new Date(now - CONFIRM_RESEND_COOLDOWN * 1000).toISOString(),
+  );
+  if (!claimed) return;
+
+  const token = await signToken(ctx.tokenSecret, record.id, 'confirm', CONFIRM_TOKEN_TTL);
+  const link = `${origin}/confirm?token=${encodeURIComponent(token)}`;
+  await ctx.email.send(
+    confirmationEmail(record.lister_email, record.lister_name, link, await manageLink(ctx, record, origin)),
+  );
+}
+
+export async function handleWaitlist(request: Request, ctx: WaitlistContext): Promise<Response> {
+  if (request.method !== 'POST') return methodNotAllowed(['POST']);
+
+  const body = await readJson(request);
+  if (body === undefined) return json({ error: 'invalid_json' }, 400);
+
+  const result = validateSubmission(body);
+  if (!result.ok) return json({ error: 'invalid', fields: result.errors }, 400);
+
+  const { lister_ref, lister_attribution, ...submission } = result.value;
+
+  // Unknown codes and self-referrals are ignored rather than rejected
+  const referrer = lister_ref ? await ctx.store.findByReferralCode(lister_ref) : null;
+  const entry: NewWaitlistEntry = {
+    ...submission,
+    referred_by: referrer && referrer.lister_email !== submission.lister_email ? referrer.referral_code : null,
+    attribution: lister_attribution ?? null,
+  };
+
+  const { origin } = new URL(request.url);
+  let record: WaitlistRecord;
+  let status = 201;
+
+  try {
+    record = await ctx.store.insert(entry);
+  } catch (err) {
+    if (!(err instanceof DuplicateEmailError)) throw err;
+
+    // Still pending (e.g. the first email never arrived): send the link again
+    const existing = await ctx.store.findByEmail(entry.lister_email);
+    if (!existing || existing.status === 'confirmed') return json({ error: 'duplicate' }, 409);
+    record = existing;
+    status = 202;
+  }
+
+  try {
+    await sendConfirmation(ctx, record, origin);
+  } catch (err) {
+    // The entry is saved; re-submitting the form after the cooldown re-sends the link
+    console.error('Failed to send confirmation email:', err);
+  }
+
+  // Standing is only for whoever made the entry, not anyone who knows the address
+  if (status === 202) return json({ ok: true, status: 'pending' }, status);
+  return json({ ok: true, status: 'pending', ...await queueDetails(ctx, record) }, status);
+}
+
+export async function handleConfirm(request: Request, ctx: WaitlistContext): Promise<Response> {
+  if (request.method !== 'POST') return methodNotAllowed(['POST']);
+
+  const body = await readJson(request) as { token?: unknown } | undefined;
+  if (typeof body?.token !== 'string') return json({ error: 'invalid_token' }, 400);
+
+  const verified = await verifyToken(ctx.tokenSecret, body.token, 'confirm');
+  if (!verified.ok) return json({ error: `${verified.reason}_token` }, 400);
+
+  const record = await ctx.store.confirm(verified.payload.sub);
+  if (!record) return json({ error: 'not_found' }, 404);
+
+  return json({ ok: true, beta: record.lister_beta, ...await queueDetails(ctx, record) });
+}
+
+export async function handleManage(request: Request, ctx: WaitlistContext): Promise<Response> {
+  if (!['GET', 'PATCH', 'DELETE'].includes(request.method)) return methodNotAllowed(['GET', 'PATCH', 'DELETE']);
+
+  const token = bearerToken(request);
+  if (!token) return json({ error: 'invalid_token' }, 400);
+
+  const verified = await verifyToken(ctx.tokenSecret, token, 'manage');
+  if (!verified.ok) return json({ error: `${verified.reason}_token` }, 400);
+  const id = verified.payload.sub;
+
+  if (request.method === 'DELETE') {
+    if (!await ctx.store.remove(id)) return json({ error: 'not_found' }, 404);
+    return json({ ok: true });
+  }
+
+  let record: WaitlistRecord | null;
+  if (request.method === 'PATCH') {
+    const body = await readJson(request) as { beta?: unknown } | undefined;
+    if (typeof body?.beta !== 'boolean') {
+      return json({ error: 'invalid', fields: { lister_beta: 'Must be true or false' } }, 400);
+    }
+    record = await ctx.store.update(id, { lister_beta: body.beta });
+  } else {
+    record = await ctx.store.findById(id);
+  }
+
+  if (!record) return json({ error: 'not_found' }, 404);
+  return json({ ok: true, entry: entryDetails(record) });
+}
+
+export async function handleManageLink(request: Request, ctx: WaitlistContext): Promise<Response> {
+  if (request.method !== 'POST') return methodNotAllowed(['POST']);
+
+  const body = await readJson(request) as { email?: unknown } | undefined;
+  if (typeof body?.email !== 'string' || !isValidEmail(body.email)) {
+    return json({ error: 'invalid', fields: { lister_email: 'Invalid email address' } }, 400);
+  }
+
+  const email = normaliseEmail(body.email);
+  const now = Date.now();
+  const claimed = await ctx.store.claimManageLinkSend(
+    email,
+    new Date(now).toISOString(),
+    new Date(now - MANAGE_LINK_COOLDOWN * 1000).toISOString(),
+  );
+  // Unknown addresses and ones still cooling down get the same 202
+  const record = claimed ? await ctx.store.findByEmail(email) : null;
+  if (record) {
+    try {
+      const link = await manageLink(ctx, record, new URL(request.url).origin);
+      await ctx.email.send(manageLinkEmail(record.lister_email, record.lister_name, link));
+    } catch (err) {
+      console.error('Failed to send manage link email:', err);
+    }
+  }
+
+  return json({ ok: true }, 202);
+}